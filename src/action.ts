@@ -29,7 +29,9 @@ import {
 	SaveResult,
 } from "./constants.js";
 import { CrossSeedError } from "./errors.js";
+import { emitEvent, EventType } from "./events.js";
 import { Label, logger } from "./logger.js";
+import { actionResults } from "./metrics.js";
 import { Metafile } from "./parseTorrent.js";
 import { AssessmentWithTracker } from "./pipeline.js";
 import { Result, resultOf, resultOfErr } from "./Result.js";
@@ -512,7 +514,17 @@ export async function performActionWithoutMutex(
 		searchee.label !== Label.INJECT ? logger.warn : logger.verbose;
 	const infoOrVerbose =
 		searchee.label !== Label.INJECT ? logger.info : logger.verbose;
-	const logActionResult = (r: ActionResult) =>
+	const logActionResult = (r: ActionResult) => {
+		actionResults.inc({ source: searchee.label, result: r });
+		emitEvent(EventType.ACTION, {
+			searchee: searchee.title,
+			source: searchee.label,
+			name: newMeta.name,
+			tracker,
+			decision,
+			infoHash: newMeta.infoHash,
+			result: r,
+		});
 		logActionResultImpl(
 			r,
 			newMeta,
@@ -522,6 +534,7 @@ export async function performActionWithoutMutex(
 			infoOrVerbose,
 			warnOrVerbose,
 		);
+	};
 	const saveTorrent = () =>
 		saveToOutputDir(newMeta, decision, searchee, tracker);
 
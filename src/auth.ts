@@ -1,11 +1,39 @@
-import { randomBytes } from "node:crypto";
+import chalk from "chalk";
+import { createHash, randomBytes } from "node:crypto";
 import { db } from "./db.js";
+import { CrossSeedError } from "./errors.js";
 import { getRuntimeConfig } from "./runtimeConfig.js";
+import { formatAsList, humanReadableDate } from "./utils.js";
+
+export enum ApiKeyScope {
+	ANNOUNCE = "announce",
+	WEBHOOK = "webhook",
+	JOB = "job",
+	READ = "read",
+	/**
+	 * Changing the state of the daemon, e.g. managing indexers
+	 */
+	ADMIN = "admin",
+}
+
+export interface ApiKeyInfo {
+	name: string;
+	scopes: ApiKeyScope[];
+	createdAt: number;
+	lastUsedAt: number | null;
+}
 
 function generateApiKey(): string {
 	return randomBytes(24).toString("hex");
 }
 
+/**
+ * Named keys are only stored hashed, they are shown once on creation
+ */
+function hashApiKey(key: string): string {
+	return createHash("sha256").update(key).digest("hex");
+}
+
 export async function resetApiKey(): Promise<string> {
 	const apikey = generateApiKey();
 	await db("settings").update({ apikey });
@@ -21,7 +49,74 @@ export async function getApiKey(): Promise<string> {
 	return apikey;
 }
 
-export async function checkApiKey(keyToCheck: string): Promise<boolean> {
-	const apikey = await getApiKey();
-	return apikey === keyToCheck;
+/**
+ * The main api key has every scope, named keys have the scopes they were
+ * created with. Records the last use of named keys.
+ * @returns the scopes of the key or null if the key is invalid
+ */
+export async function getApiKeyScopes(
+	keyToCheck: string | null,
+): Promise<ApiKeyScope[] | null> {
+	if (!keyToCheck) return null;
+	if (keyToCheck === (await getApiKey())) return Object.values(ApiKeyScope);
+
+	const keyHash = hashApiKey(keyToCheck);
+	const row = await db("api_key")
+		.select("scopes")
+		.where({ key_hash: keyHash })
+		.first();
+	if (!row) return null;
+	await db("api_key")
+		.where({ key_hash: keyHash })
+		.update({ last_used_at: Date.now() });
+	return JSON.parse(row.scopes);
+}
+
+export async function createApiKey(
+	name: string,
+	options: { scope: ApiKeyScope[] },
+): Promise<string> {
+	if (await db("api_key").where({ name }).first()) {
+		throw new CrossSeedError(`An api key named ${name} already exists`);
+	}
+	const key = generateApiKey();
+	await db("api_key").insert({
+		name,
+		key_hash: hashApiKey(key),
+		scopes: JSON.stringify(Array.from(new Set(options.scope))),
+		created_at: Date.now(),
+	});
+	return key;
+}
+
+export async function listApiKeys(): Promise<ApiKeyInfo[]> {
+	const rows = await db("api_key")
+		.select({
+			name: "name",
+			scopes: "scopes",
+			createdAt: "created_at",
+			lastUsedAt: "last_used_at",
+		})
+		.orderBy("name");
+	return rows.map((row) => ({ ...row, scopes: JSON.parse(row.scopes) }));
+}
+
+export function formatApiKeys(apiKeys: ApiKeyInfo[]): string {
+	if (!apiKeys.length) {
+		return "No named api keys, use `cross-seed create-api-key` to add one";
+	}
+	return apiKeys
+		.map(
+			({ name, scopes, createdAt, lastUsedAt }) =>
+				`${chalk.bold(name)}: ${formatAsList(scopes, { sort: true })} - created ${humanReadableDate(createdAt)}, last used ${lastUsedAt ? humanReadableDate(lastUsedAt) : "never"}`,
+		)
+		.join("\n");
+}
+
+export async function revokeApiKey(name: string): Promise<string> {
+	const deleted = await db("api_key").where({ name }).del();
+	if (!deleted) {
+		throw new CrossSeedError(`No api key named ${name} exists`);
+	}
+	return `Revoked api key ${name}`;
 }
@@ -112,8 +112,22 @@ export default class Deluge implements TorrentClient {
 	/**
 	 * validates the login and host for deluge webui
 	 */
-	async validateConfig(): Promise<void> {
-		const { torrentDir } = getRuntimeConfig();
+	async checkConnection(): Promise<void> {
+		const res = await this.call<boolean>("web.connected", []);
+		if (res.isErr()) {
+			throw new Error(
+				`[${this.label}] Deluge method web.connected failed: ${res.unwrapErr().message}`,
+			);
+		}
+		if (!res.unwrap()) {
+			throw new Error(
+				`[${this.label}] Deluge is not connected to a daemon`,
+			);
+		}
+	}
+
+	async validateConfig(runtimeConfig = getRuntimeConfig()): Promise<void> {
+		const { torrentDir } = runtimeConfig;
 		await this.authenticate();
 		this.isLabelEnabled = await this.labelEnabled();
 		logger.info({
@@ -261,8 +261,20 @@ export default class QBittorrent implements TorrentClient {
 		});
 	}
 
-	async validateConfig(): Promise<void> {
-		const { torrentDir } = getRuntimeConfig();
+	async checkConnection(): Promise<void> {
+		const version = await this.request(
+			"/app/version",
+			"",
+			X_WWW_FORM_URLENCODED,
+			1,
+		);
+		if (!version?.startsWith("v")) {
+			throw new Error(`[${this.label}] Unable to retrieve version`);
+		}
+	}
+
+	async validateConfig(runtimeConfig = getRuntimeConfig()): Promise<void> {
+		const { torrentDir } = runtimeConfig;
 		try {
 			await this.login();
 		} catch (e) {
@@ -328,8 +328,12 @@ export default class RTorrent implements TorrentClient {
 		}
 	}
 
-	async validateConfig(): Promise<void> {
-		const { torrentDir } = getRuntimeConfig();
+	async checkConnection(): Promise<void> {
+		await this.methodCallP<string>("system.client_version", []);
+	}
+
+	async validateConfig(runtimeConfig = getRuntimeConfig()): Promise<void> {
+		const { torrentDir } = runtimeConfig;
 		try {
 			await this.methodCallP<string[]>("download_list", []);
 		} catch (e) {
@@ -18,7 +18,7 @@ import { Label, logger } from "../logger.js";
 import { Metafile, sanitizeTrackerUrl } from "../parseTorrent.js";
 import { filterByContent } from "../preFilter.js";
 import { Result } from "../Result.js";
-import { getRuntimeConfig } from "../runtimeConfig.js";
+import { getRuntimeConfig, RuntimeConfig } from "../runtimeConfig.js";
 import { Searchee, SearcheeClient, SearcheeWithInfoHash } from "../searchee.js";
 import {
 	formatAsList,
@@ -111,7 +111,15 @@ export interface TorrentClient {
 		options: { onlyCompleted: boolean; destinationDir?: string },
 	) => Promise<InjectionResult>;
 	recheckTorrent: (infoHash: string) => Promise<void>;
-	validateConfig: () => Promise<void>;
+	/**
+	 * A cheap request that throws if the client is unreachable or the login
+	 * is rejected
+	 */
+	checkConnection: () => Promise<void>;
+	/**
+	 * @param runtimeConfig the config to validate, the current one by default
+	 */
+	validateConfig: (runtimeConfig?: RuntimeConfig) => Promise<void>;
 }
 
 const PARSE_CLIENT_REGEX =
@@ -149,8 +157,10 @@ export function clientsAreUnique(torrentClients: string[]): {
 	return { uniqueHosts, uniqueWithPathname };
 }
 
-export function instantiateDownloadClients() {
-	const { torrentClients } = getRuntimeConfig();
+export function createDownloadClients(
+	torrentClients: string[],
+): TorrentClient[] {
+	const clients: TorrentClient[] = [];
 	const { uniqueHosts } = clientsAreUnique(torrentClients);
 	for (const [priority, clientEntryRaw] of torrentClients.entries()) {
 		const { clientType, readonly, url } = parseClientEntry(clientEntryRaw)!;
@@ -160,29 +170,36 @@ export function instantiateDownloadClients() {
 			: `${urlObj.host}${urlObj.pathname}`;
 		switch (clientType) {
 			case Label.QBITTORRENT:
-				activeClients.push(
+				clients.push(
 					new QBittorrent(url, clientHost, priority, readonly),
 				);
 				break;
 			case Label.RTORRENT:
-				activeClients.push(
-					new RTorrent(url, clientHost, priority, readonly),
-				);
+				clients.push(new RTorrent(url, clientHost, priority, readonly));
 				break;
 			case Label.TRANSMISSION:
-				activeClients.push(
+				clients.push(
 					new Transmission(url, clientHost, priority, readonly),
 				);
 				break;
 			case Label.DELUGE:
-				activeClients.push(
-					new Deluge(url, clientHost, priority, readonly),
-				);
+				clients.push(new Deluge(url, clientHost, priority, readonly));
 				break;
 			default:
 				throw new Error(`Invalid client type: ${clientType}`);
 		}
 	}
+	return clients;
+}
+
+/**
+ * @param clients the clients of the current config, created if not given
+ */
+export function instantiateDownloadClients(
+	clients = createDownloadClients(getRuntimeConfig().torrentClients),
+): void {
+	activeClients.length = 0;
+	activeClients.push(...clients);
 }
 
 export function getClients(): TorrentClient[] {
@@ -183,8 +183,17 @@ export default class Transmission implements TorrentClient {
 		}
 	}
 
-	async validateConfig(): Promise<void> {
-		const { torrentDir } = getRuntimeConfig();
+	async checkConnection(): Promise<void> {
+		await this.request(
+			"session-get",
+			{ fields: ["version"] },
+			1,
+			ms("10 seconds"),
+		);
+	}
+
+	async validateConfig(runtimeConfig = getRuntimeConfig()): Promise<void> {
+		const { torrentDir } = runtimeConfig;
 		try {
 			await this.request("session-get", {}, 1, ms("10 seconds"));
 		} catch (e) {
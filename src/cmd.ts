@@ -1,26 +1,58 @@
 #!/usr/bin/env node
 import chalk from "chalk";
-import { Option, program } from "commander";
-import { getApiKey, resetApiKey } from "./auth.js";
+import { Argument, Command, Option, program } from "commander";
+import {
+	ApiKeyScope,
+	createApiKey,
+	formatApiKeys,
+	getApiKey,
+	listApiKeys,
+	resetApiKey,
+	revokeApiKey,
+} from "./auth.js";
 import { FileConfig, generateConfig, getFileConfig } from "./configuration.js";
 import {
 	Action,
+	Decision,
 	LinkType,
 	MatchMode,
 	PROGRAM_NAME,
 	PROGRAM_VERSION,
+	UNKNOWN_TRACKER,
 } from "./constants.js";
 import { db } from "./db.js";
 import { updateTorrentCache } from "./decide.js";
+import {
+	DECISION_QUERY_SCHEMA,
+	formatDecisionHistory,
+	queryDecisions,
+} from "./decisionHistory.js";
 import { diffCmd } from "./diff.js";
 import { CrossSeedError } from "./errors.js";
 import { clearIndexerFailures } from "./indexers.js";
 import { injectSavedTorrents, restoreFromTorrentCache } from "./inject.js";
-import { jobsLoop } from "./jobs.js";
+import {
+	formatJobRuns,
+	JOB_RUN_QUERY_SCHEMA,
+	JobRunOutcome,
+	queryJobRuns,
+} from "./jobRuns.js";
+import { CANCELLABLE_JOBS, JobName, jobsLoop } from "./jobs.js";
+import { Label } from "./logger.js";
 import { bulkSearch, scanRssFeeds } from "./pipeline.js";
 import { sendTestNotification } from "./pushNotifier.js";
+import {
+	formatRecentCandidates,
+	queryRecentCandidates,
+	RECENT_CANDIDATE_QUERY_SCHEMA,
+} from "./recentCandidates.js";
 import { serve } from "./server.js";
-import { withFullRuntime, withMinimalRuntime } from "./startup.js";
+import {
+	enableConfigReload,
+	withFullRuntime,
+	withMinimalRuntime,
+} from "./startup.js";
+import { formatStats, getStats, STATS_QUERY_SCHEMA } from "./stats.js";
 import { indexTorrentsAndDataDirs, parseTorrentFromPath } from "./torrent.js";
 import { fallback } from "./utils.js";
 
@@ -35,15 +67,17 @@ try {
 	throw e;
 }
 
-const apiKeyOption = new Option(
-	"--api-key <key>",
-	"Provide your own API key to override the autogenerated one.",
-).default(fileConfig.apiKey);
+function createApiKeyOption(fileConfig: FileConfig) {
+	return new Option(
+		"--api-key <key>",
+		"Provide your own API key to override the autogenerated one.",
+	).default(fileConfig.apiKey);
+}
 
-function createCommandWithSharedOptions(name: string, description: string) {
-	return program
-		.command(name)
-		.description(description)
+const apiKeyOption = createApiKeyOption(fileConfig);
+
+function addSharedOptions(command: Command, fileConfig: FileConfig) {
+	return command
 		.option(
 			"-T, --torznab <urls...>",
 			"Torznab urls with apikey included (separated by spaces)",
@@ -261,6 +295,11 @@ function createCommandWithSharedOptions(name: string, description: string) {
 			(n) => parseInt(n),
 			fallback(fileConfig.searchLimit, 0),
 		)
+		.option(
+			"--query-cache-ttl <duration>",
+			"How long to reuse the results of a search query",
+			fileConfig.queryCacheTtl,
+		)
 		.option(
 			"--block-list <strings...>",
 			"The infohashes and/or strings in torrent name to block from cross-seed",
@@ -278,9 +317,106 @@ function createCommandWithSharedOptions(name: string, description: string) {
 			"Radarr API URL(s)",
 			// @ts-expect-error commander supports non-string defaults
 			fileConfig.radarr,
+		)
+		.option(
+			"--prowlarr <url>",
+			"Prowlarr URL with apikey included to discover indexers from",
+			fileConfig.prowlarr,
+		)
+		.option(
+			"--prowlarr-tags <tags...>",
+			"Only use Prowlarr indexers with any of these tags",
+			// @ts-expect-error commander supports non-string defaults
+			fallback(fileConfig.prowlarrTags, []),
+		)
+		.option(
+			"--prowlarr-exclude-tags <tags...>",
+			"Don't use Prowlarr indexers with any of these tags",
+			// @ts-expect-error commander supports non-string defaults
+			fallback(fileConfig.prowlarrExcludeTags, []),
+		)
+		.option(
+			"--proxy <url>",
+			"HTTP or SOCKS proxy URL for indexer requests and snatches",
+			fileConfig.proxy,
 		);
 }
 
+function createCommandWithSharedOptions(name: string, description: string) {
+	return addSharedOptions(
+		program.command(name).description(description),
+		fileConfig,
+	);
+}
+
+function addDaemonOptions(command: Command, fileConfig: FileConfig) {
+	return command
+		.option(
+			"-p, --port <port>",
+			"Listen on a custom port",
+			(n) => parseInt(n),
+			fallback(fileConfig.port, 2468),
+		)
+		.option(
+			"--host <host>",
+			"Bind to a specific IP address",
+			fileConfig.host,
+		)
+		.option("--no-port", "Do not listen on any port")
+		.option(
+			"--search-cadence <cadence>",
+			"Run searches on a schedule. Format: https://github.com/vercel/ms",
+			fileConfig.searchCadence,
+		)
+		.option(
+			"--rss-cadence <cadence>",
+			"Run an rss scan on a schedule. Format: https://github.com/vercel/ms",
+			fileConfig.rssCadence,
+		)
+		.option(
+			"--search-cron <expression>",
+			"Run searches at the times of this cron expression instead of on the searchCadence",
+			fileConfig.searchCron,
+		)
+		.option(
+			"--rss-cron <expression>",
+			"Run rss scans at the times of this cron expression instead of on the rssCadence",
+			fileConfig.rssCron,
+		)
+		.option(
+			"--inject-cron <expression>",
+			"Run the inject job at the times of this cron expression instead of hourly",
+			fileConfig.injectCron,
+		)
+		.option(
+			"--cleanup-cron <expression>",
+			"Run the cleanup job at the times of this cron expression instead of daily",
+			fileConfig.cleanupCron,
+		)
+		.option(
+			"--quiet-hours <HH:MM-HH:MM>",
+			"Daily window where searches and cleanup won't start and running searches pause",
+			fileConfig.quietHours,
+		)
+		.addOption(createApiKeyOption(fileConfig));
+}
+
+/**
+ * Rebuilds the daemon's options from the current config file, keeping any
+ * values that were passed on the command line
+ */
+async function reloadDaemonOptions(): Promise<Record<string, unknown>> {
+	const reloadedFileConfig = await getFileConfig({ reload: true });
+	const command = addDaemonOptions(
+		addSharedOptions(new Command("daemon"), reloadedFileConfig),
+		reloadedFileConfig,
+	).exitOverride();
+	command.parse(process.argv.slice(process.argv.indexOf("daemon") + 1), {
+		from: "user",
+	});
+	return command.opts();
+}
+
 program.name(PROGRAM_NAME);
 program.description(chalk.yellow.bold(`${PROGRAM_NAME} v${PROGRAM_VERSION}`));
 program.version(PROGRAM_VERSION, "-V, --version", "output the current version");
@@ -333,7 +469,7 @@ program
 program
 	.command("clear-indexer-failures")
 	.description("Clear the cached details of indexers (failures and caps)")
-	.action(withMinimalRuntime(clearIndexerFailures));
+	.action(withMinimalRuntime(() => clearIndexerFailures()));
 
 program
 	.command("clear-cache")
@@ -363,6 +499,214 @@ program
 		}),
 	);
 
+program
+	.command("decisions")
+	.description(
+		"Query the history of decisions made on candidates, most recent first",
+	)
+	.option("--name <name>", "Searchee name contains this substring")
+	.option("--info-hash <infoHash>", "Candidate info hash")
+	.option("--guid <guid>", "Candidate guid")
+	.option(
+		"--tracker <tracker>",
+		`Tracker name, ${UNKNOWN_TRACKER} for decisions without one`,
+	)
+	.option("--indexer <indexer>", "Indexer id, name, or url")
+	.addOption(
+		new Option("--decision <decisions...>", "Only these decisions").choices(
+			Object.values(Decision),
+		),
+	)
+	.option(
+		"--since <time>",
+		"Seen since a date, timestamp, or duration ago (e.g. 7d)",
+	)
+	.option(
+		"--until <time>",
+		"Seen until a date, timestamp, or duration ago (e.g. 1d)",
+	)
+	.option("--limit <limit>", "Maximum number of decisions to show", "50")
+	.option("--offset <offset>", "Number of decisions to skip", "0")
+	.option("--json", "Output as JSON")
+	.action(
+		withMinimalRuntime(async ({ json, ...options }) => {
+			const parsed = DECISION_QUERY_SCHEMA.safeParse(options);
+			if (!parsed.success) {
+				throw new CrossSeedError(
+					parsed.error.issues
+						.map(
+							(issue) =>
+								`--${issue.path.join(".")}: ${issue.message}`,
+						)
+						.join("\n"),
+				);
+			}
+			const page = await queryDecisions(parsed.data);
+			return json
+				? JSON.stringify(page, null, 2)
+				: formatDecisionHistory(page);
+		}),
+	);
+
+program
+	.command("job-runs")
+	.description("Show the history of job runs, most recent first")
+	.addOption(
+		new Option("--name <name>", "Only runs of this job").choices(
+			Object.values(JobName),
+		),
+	)
+	.addOption(
+		new Option(
+			"--outcome <outcome>",
+			"Only runs with this outcome",
+		).choices(Object.values(JobRunOutcome)),
+	)
+	.option(
+		"--since <time>",
+		"Started since a date, timestamp, or duration ago (e.g. 7d)",
+	)
+	.option(
+		"--until <time>",
+		"Started until a date, timestamp, or duration ago (e.g. 1d)",
+	)
+	.option("--limit <limit>", "Maximum number of runs to show", "50")
+	.option("--offset <offset>", "Number of runs to skip", "0")
+	.option("--json", "Output as JSON")
+	.action(
+		withMinimalRuntime(async ({ json, ...options }) => {
+			const parsed = JOB_RUN_QUERY_SCHEMA.safeParse(options);
+			if (!parsed.success) {
+				throw new CrossSeedError(
+					parsed.error.issues
+						.map(
+							(issue) =>
+								`--${issue.path.join(".")}: ${issue.message}`,
+						)
+						.join("\n"),
+				);
+			}
+			const page = await queryJobRuns(parsed.data);
+			return json ? JSON.stringify(page, null, 2) : formatJobRuns(page);
+		}),
+	);
+
+program
+	.command("stats")
+	.description(
+		"Show searches, snatches, matches, and injections for each tracker",
+	)
+	.option("--tracker <tracker>", "Tracker or indexer name")
+	.option(
+		"--since <time>",
+		"Seen since a date, timestamp, or duration ago (e.g. 30d)",
+	)
+	.option(
+		"--until <time>",
+		"Seen until a date, timestamp, or duration ago (e.g. 1d)",
+	)
+	.option("--json", "Output as JSON")
+	.action(
+		withMinimalRuntime(async ({ json, ...options }) => {
+			const parsed = STATS_QUERY_SCHEMA.safeParse(options);
+			if (!parsed.success) {
+				throw new CrossSeedError(
+					parsed.error.issues
+						.map(
+							(issue) =>
+								`--${issue.path.join(".")}: ${issue.message}`,
+						)
+						.join("\n"),
+				);
+			}
+			const report = await getStats(parsed.data);
+			return json ? JSON.stringify(report, null, 2) : formatStats(report);
+		}),
+	);
+
+program
+	.command("recent-candidates")
+	.description(
+		"Show the recent RSS and announce candidates kept to be matched against torrents added later, newest first",
+	)
+	.option("--tracker <tracker>", "Only candidates from this tracker")
+	.addOption(
+		new Option(
+			"--label <label>",
+			"Only candidates seen by RSS or announce",
+		).choices([Label.RSS, Label.ANNOUNCE]),
+	)
+	.option("--limit <limit>", "Maximum number of candidates to show", "50")
+	.option("--offset <offset>", "Number of candidates to skip", "0")
+	.option("--json", "Output as JSON")
+	.action(
+		withMinimalRuntime(async ({ json, ...options }) => {
+			const parsed = RECENT_CANDIDATE_QUERY_SCHEMA.safeParse(options);
+			if (!parsed.success) {
+				throw new CrossSeedError(
+					parsed.error.issues
+						.map(
+							(issue) =>
+								`--${issue.path.join(".")}: ${issue.message}`,
+						)
+						.join("\n"),
+				);
+			}
+			const page = await queryRecentCandidates(parsed.data);
+			return json
+				? JSON.stringify(page, null, 2)
+				: formatRecentCandidates(page);
+		}),
+	);
+
+/**
+ * Sends a job control request to the running daemon
+ */
+async function controlDaemonJob(
+	action: "cancel" | "pause" | "resume",
+	name: JobName,
+): Promise<string> {
+	const host =
+		!fileConfig.host || ["0.0.0.0", "::"].includes(fileConfig.host)
+			? "localhost"
+			: fileConfig.host;
+	const url = `http://${host}:${fileConfig.port ?? 2468}/api/job/${action}`;
+	let response: Response;
+	try {
+		response = await fetch(url, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				"X-Api-Key": fileConfig.apiKey ?? (await getApiKey()),
+			},
+			body: JSON.stringify({ name }),
+		});
+	} catch (e) {
+		throw new CrossSeedError(
+			`Unable to reach the daemon at ${url}: ${e.message}`,
+		);
+	}
+	const text = await response.text();
+	if (!response.ok) throw new CrossSeedError(text);
+	return text;
+}
+
+for (const [action, description] of [
+	["cancel", "Cancel a running job"],
+	["pause", "Pause a running job until it is resumed"],
+	["resume", "Resume a paused job where it stopped"],
+] as const) {
+	program
+		.command(`${action}-job`)
+		.description(`${description} in the running daemon`)
+		.addArgument(new Argument("<name>").choices(CANCELLABLE_JOBS))
+		.action(
+			withMinimalRuntime((name: JobName) =>
+				controlDaemonJob(action, name),
+			),
+		);
+}
+
 program
 	.command("api-key")
 	.description("Show the api key")
@@ -374,33 +718,41 @@ program
 	.description("Reset the api key")
 	.action(withMinimalRuntime(resetApiKey));
 
-createCommandWithSharedOptions("daemon", "Start the cross-seed daemon")
-	.option(
-		"-p, --port <port>",
-		"Listen on a custom port",
-		(n) => parseInt(n),
-		fallback(fileConfig.port, 2468),
-	)
-	.option("--host <host>", "Bind to a specific IP address", fileConfig.host)
-	.option("--no-port", "Do not listen on any port")
-	.option(
-		"--search-cadence <cadence>",
-		"Run searches on a schedule. Format: https://github.com/vercel/ms",
-		fileConfig.searchCadence,
+program
+	.command("create-api-key")
+	.description(
+		"Create an additional named api key restricted to specific scopes",
 	)
-	.option(
-		"--rss-cadence <cadence>",
-		"Run an rss scan on a schedule. Format: https://github.com/vercel/ms",
-		fileConfig.rssCadence,
+	.argument("name", "A unique name to identify the key, e.g. autobrr")
+	.addOption(
+		new Option("--scope <scopes...>", "The endpoints the key can access")
+			.choices(Object.values(ApiKeyScope))
+			.makeOptionMandatory(),
 	)
-	.addOption(apiKeyOption)
-	.action(
-		withFullRuntime(async (options) => {
-			await indexTorrentsAndDataDirs({ startup: true });
-			// technically this will never resolve, but it's necessary to keep the process running
-			await Promise.all([serve(options.port, options.host), jobsLoop()]);
-		}),
-	);
+	.action(withMinimalRuntime(createApiKey));
+
+program
+	.command("list-api-keys")
+	.description("List the named api keys with their scopes and last use")
+	.action(withMinimalRuntime(async () => formatApiKeys(await listApiKeys())));
+
+program
+	.command("revoke-api-key")
+	.description("Revoke a named api key")
+	.argument("name")
+	.action(withMinimalRuntime(revokeApiKey));
+
+addDaemonOptions(
+	createCommandWithSharedOptions("daemon", "Start the cross-seed daemon"),
+	fileConfig,
+).action(
+	withFullRuntime(async (options) => {
+		enableConfigReload(reloadDaemonOptions);
+		await indexTorrentsAndDataDirs({ startup: true });
+		// technically this will never resolve, but it's necessary to keep the process running
+		await Promise.all([serve(options.port, options.host), jobsLoop()]);
+	}),
+);
 
 createCommandWithSharedOptions("rss", "Run an rss scan").action(
 	withFullRuntime(async () => {
@@ -444,7 +796,7 @@ createCommandWithSharedOptions(
 		"--no-ignore-titles",
 		"Searchee and candidate titles need to pass the fuzzy matching check (default)",
 	)
-	.action(withFullRuntime(injectSavedTorrents));
+	.action(withFullRuntime(() => injectSavedTorrents()));
 
 createCommandWithSharedOptions(
 	"restore",
@@ -7,6 +7,7 @@ import {
 	Action,
 	LOGS_FOLDER,
 	MatchMode,
+	MediaType,
 	TORRENT_CACHE_FOLDER,
 } from "./constants.js";
 import { CrossSeedError } from "./errors.js";
@@ -14,6 +15,23 @@ import { CrossSeedError } from "./errors.js";
 const require = createRequire(import.meta.url);
 const packageDotJson = require("../package.json");
 
+export interface FileTorznabEntry {
+	url: string;
+	delay?: number;
+	searchTimeout?: string;
+	snatchTimeout?: string;
+	searchLimit?: number;
+	excludeRecentSearch?: string;
+	mediaTypes?: MediaType[];
+	requestsPerMinute?: number;
+	requestsPerHour?: number;
+	requestsPerDay?: number;
+	grabsPerDay?: number;
+	proxy?: string | null;
+	rss?: boolean;
+	search?: boolean;
+}
+
 export interface FileConfig {
 	action?: Action;
 	pconfigVersion?: number;
@@ -40,7 +58,7 @@ export interface FileConfig {
 	maxDataDepth?: number;
 	linkCategory?: string;
 	torrentDir?: string;
-	torznab?: string[];
+	torznab?: (string | FileTorznabEntry)[];
 	torrentClients?: string[];
 	qbittorrentUrl?: string;
 	rtorrentRpcUrl?: string;
@@ -53,13 +71,23 @@ export interface FileConfig {
 	host?: string;
 	searchCadence?: string;
 	rssCadence?: string;
+	searchCron?: string;
+	rssCron?: string;
+	injectCron?: string;
+	cleanupCron?: string;
+	quietHours?: string;
 	snatchTimeout?: string;
 	searchTimeout?: string;
 	searchLimit?: number;
+	queryCacheTtl?: string;
 	blockList?: string[];
 	apiKey?: string;
 	sonarr?: string[];
 	radarr?: string[];
+	prowlarr?: string;
+	prowlarrTags?: string[];
+	prowlarrExcludeTags?: string[];
+	proxy?: string;
 }
 
 export const UNPARSABLE_CONFIG_MESSAGE = `
@@ -120,15 +148,26 @@ export function generateConfig(): void {
 	console.log("Configuration file created at", chalk.yellow.bold(dest));
 }
 
-export async function getFileConfig(): Promise<FileConfig> {
+/**
+ * @param options.reload bypass the module cache to pick up changes to the file
+ */
+export async function getFileConfig(
+	options = { reload: false },
+): Promise<FileConfig> {
 	if (process.env.DOCKER_ENV === "true") {
 		generateConfig();
 	}
 
 	const configPath = path.join(appDir(), "config.js");
+	const configUrl = pathToFileURL(configPath);
+	if (options.reload) {
+		// config.js is commonjs, which is cached separately from esm imports
+		delete require.cache[configPath];
+		configUrl.searchParams.set("reload", `${Date.now()}`);
+	}
 
 	try {
-		return (await import(pathToFileURL(configPath).toString())).default;
+		return (await import(configUrl.toString())).default;
 	} catch (e) {
 		if (e.code === "ERR_MODULE_NOT_FOUND") {
 			return {};
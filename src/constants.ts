@@ -6,6 +6,7 @@ const packageDotJson = require("../package.json");
 export const PROGRAM_NAME = packageDotJson.name;
 export const PROGRAM_VERSION = packageDotJson.version;
 export const USER_AGENT = `CrossSeed/${PROGRAM_VERSION}`;
+export const PROXY_PROTOCOLS = ["http:", "https:", "socks4:", "socks5:"];
 export const TORRENT_TAG = "cross-seed";
 export const TORRENT_CATEGORY_SUFFIX = `.cross-seed`;
 export const NEWLINE_INDENT = "\n\t\t\t\t";
@@ -206,6 +207,11 @@ export enum Decision {
 	DOWNLOAD_FAILED = "DOWNLOAD_FAILED",
 	MAGNET_LINK = "MAGNET_LINK",
 	RATE_LIMITED = "RATE_LIMITED",
+	/**
+	 * The grab budget of the indexer is used up. Unlike RATE_LIMITED, the
+	 * indexer isn't snoozed and the searchee is searched on it again later.
+	 */
+	GRAB_DEFERRED = "GRAB_DEFERRED",
 	/**
 	 * Searchee and Candidate infoHash matches. Usually happens with public
 	 * torrents and torrents added by radarr/sonarr before cross-seed on announces.
@@ -53,11 +53,14 @@ function createWatcher(dataDir: string): FSWatcher {
 	});
 }
 
+/**
+ * @return the titles of the data indexed due to changes since the last run
+ */
 export async function indexDataDirs(options: {
 	startup: boolean;
-}): Promise<void> {
+}): Promise<string[]> {
 	const { dataDirs, maxDataDepth } = getRuntimeConfig();
-	if (!dataDirs.length) return;
+	if (!dataDirs.length) return [];
 
 	if (options.startup) {
 		logger.info("Indexing dataDirs for reverse lookup...");
@@ -75,11 +78,11 @@ export async function indexDataDirs(options: {
 				);
 			}
 		}
-		const numEntries = await indexDataPaths(searcheePaths);
-		logger.info(`Validated ${numEntries} entries from dataDirs...`);
+		const titles = await indexDataPaths(searcheePaths);
+		logger.info(`Validated ${titles.length} entries from dataDirs...`);
 	}
 
-	await mapAsync(dataDirs, async (dataDir) => {
+	const titles = await mapAsync(dataDirs, async (dataDir) => {
 		const modified = modifiedPaths.get(dataDir)!;
 		const eventPaths: string[] = [];
 		while (modified.size) {
@@ -88,7 +91,7 @@ export async function indexDataDirs(options: {
 			if (!modified.delete(path)) continue;
 			eventPaths.push(path);
 		}
-		if (!eventPaths.length) return;
+		if (!eventPaths.length) return [];
 		logger.verbose(`Indexing dataDir ${dataDir} due to recent changes...`);
 		eventPaths.sort(
 			(a, b) =>
@@ -123,15 +126,17 @@ export async function indexDataDirs(options: {
 			await db("data").whereIn("path", batch).del();
 			await db("ensemble").whereIn("path", batch).del();
 		});
-		await indexDataPaths(paths);
+		return indexDataPaths(paths);
 	});
+	return titles.flat();
 }
 
 /**
  * Adds the data and ensemble entries to the database.
  * @param paths The paths to index.
+ * @return The titles of the indexed entries.
  */
-async function indexDataPaths(paths: string[]): Promise<number> {
+async function indexDataPaths(paths: string[]): Promise<string[]> {
 	const { seasonFromEpisodes } = getRuntimeConfig();
 	const memoizedPaths = new Map<string, string[]>();
 	const memoizedLengths = new Map<string, number>();
@@ -161,7 +166,7 @@ async function indexDataPaths(paths: string[]): Promise<number> {
 			.onConflict(["client_host", "path"])
 			.merge();
 	});
-	return dataRows.length;
+	return dataRows.map((row) => row.title);
 }
 
 function indexEnsembleDataEntry(
@@ -7,10 +7,13 @@ import { getClients } from "./clients/TorrentClient.js";
 import { appDir } from "./configuration.js";
 import { TORRENT_CACHE_FOLDER } from "./constants.js";
 import { getCachedTorrentName, rebuildGuidInfoHashMap } from "./decide.js";
+import { pruneJobRuns } from "./jobRuns.js";
 import { Label, logger } from "./logger.js";
 import { getRuntimeConfig } from "./runtimeConfig.js";
 import { migrations } from "./migrations/migrations.js";
 import { Metafile } from "./parseTorrent.js";
+import { pruneQueryCache } from "./queryCache.js";
+import { pruneRecentCandidates } from "./recentCandidates.js";
 import {
 	cacheEnsembleTorrentEntry,
 	findAllTorrentFilesInDir,
@@ -43,6 +46,7 @@ export async function cleanupDB(): Promise<void> {
 	const {
 		dataDirs,
 		excludeRecentSearch,
+		queryCacheTtl,
 		seasonFromEpisodes,
 		useClientTorrents,
 	} = getRuntimeConfig();
@@ -110,6 +114,45 @@ export async function cleanupDB(): Promise<void> {
 			await db("ensemble").whereIn("path", batch).del();
 		});
 	})();
+	await (async () => {
+		logger.verbose({
+			label: Label.CLEANUP,
+			message: "Pruning old job run history...",
+		});
+		const deleted = await pruneJobRuns();
+		if (deleted) {
+			logger.verbose({
+				label: Label.CLEANUP,
+				message: `Deleted ${deleted} job run history entries`,
+			});
+		}
+	})();
+	await (async () => {
+		logger.verbose({
+			label: Label.CLEANUP,
+			message: "Pruning expired query cache entries...",
+		});
+		const deleted = await pruneQueryCache(queryCacheTtl);
+		if (deleted) {
+			logger.verbose({
+				label: Label.CLEANUP,
+				message: `Deleted ${deleted} query cache entries`,
+			});
+		}
+	})();
+	await (async () => {
+		logger.verbose({
+			label: Label.CLEANUP,
+			message: "Pruning old recent candidates...",
+		});
+		const deleted = await pruneRecentCandidates();
+		if (deleted) {
+			logger.verbose({
+				label: Label.CLEANUP,
+				message: `Deleted ${deleted} recent candidates`,
+			});
+		}
+	})();
 	await (async () => {
 		logger.verbose({
 			label: Label.CLEANUP,
@@ -15,7 +15,9 @@ import {
 	TORRENT_CACHE_FOLDER,
 } from "./constants.js";
 import { db } from "./db.js";
+import { emitEvent, EventType } from "./events.js";
 import { Label, logger } from "./logger.js";
+import { decisions } from "./metrics.js";
 import { Metafile, Torrent } from "./parseTorrent.js";
 import { Candidate } from "./pipeline.js";
 import {
@@ -124,6 +126,9 @@ function logDecision(
 		case Decision.RATE_LIMITED:
 			reason = "cross-seed has reached this tracker's rate limit";
 			break;
+		case Decision.GRAB_DEFERRED:
+			reason = "cross-seed has used this tracker's grab budget";
+			break;
 		case Decision.DOWNLOAD_FAILED:
 			reason = "the torrent file failed to download";
 			break;
@@ -363,6 +368,15 @@ export async function assessCandidate(
 		};
 	}
 
+	if (isCandidate && metaOrCandidate.infoHash) {
+		if (searchee.infoHash === metaOrCandidate.infoHash) {
+			return { decision: Decision.SAME_INFO_HASH, metaCached };
+		}
+		if (infoHashesToExclude.has(metaOrCandidate.infoHash)) {
+			return { decision: Decision.INFO_HASH_ALREADY_EXISTS, metaCached };
+		}
+	}
+
 	let metafile: Metafile;
 	if (isCandidate) {
 		const res = await snatch(metaOrCandidate, searchee.label, {
@@ -378,7 +392,9 @@ export async function assessCandidate(
 				? { decision: Decision.MAGNET_LINK }
 				: err === SnatchError.RATE_LIMITED
 					? { decision: Decision.RATE_LIMITED }
-					: { decision: Decision.DOWNLOAD_FAILED };
+					: err === SnatchError.GRAB_DEFERRED
+						? { decision: Decision.GRAB_DEFERRED }
+						: { decision: Decision.DOWNLOAD_FAILED };
 		}
 		metafile = res.unwrap();
 		metaCached = await cacheTorrentFile(
@@ -602,6 +618,7 @@ async function assessAndSaveResults(
 	metaOrCandidate: Metafile | Candidate,
 	searchee: SearcheeWithLabel,
 	guid: string,
+	tracker: string,
 	infoHashesToExclude: Set<string>,
 	firstSeen: number,
 	guidInfoHashMap: Map<string, string>,
@@ -631,6 +648,7 @@ async function assessAndSaveResults(
 						.insert({
 							searchee_id: id,
 							guid: guid,
+							tracker,
 							info_hash: assessment.metafile!.infoHash,
 							decision: assessment.decision,
 							first_seen: firstSeen,
@@ -709,7 +727,8 @@ export async function assessCandidateCaching(
 		.join("searchee", "decision.searchee_id", "searchee.id")
 		.where({ name: searchee.title, guid })
 		.first();
-	const infoHash = guidLookup(guid, link, guidInfoHashMap);
+	const infoHash =
+		guidLookup(guid, link, guidInfoHashMap) ?? candidate.infoHash;
 	const res = await getCachedTorrent(infoHash, searchee.label);
 	const metaOrCandidate = res?.meta ?? candidate;
 	if (metaOrCandidate instanceof Metafile) {
@@ -728,6 +747,7 @@ export async function assessCandidateCaching(
 			.where({ id: cacheEntry.id })
 			.update({
 				last_seen: Date.now(),
+				tracker,
 				decision: isAnyMatchedDecision(cacheEntry.decision)
 					? cacheEntry.decision
 					: Decision.INFO_HASH_ALREADY_EXISTS,
@@ -737,6 +757,7 @@ export async function assessCandidateCaching(
 			metaOrCandidate,
 			searchee,
 			guid,
+			tracker,
 			infoHashesToExclude,
 			cacheEntry?.firstSeen ?? Date.now(),
 			guidInfoHashMap,
@@ -744,6 +765,16 @@ export async function assessCandidateCaching(
 		);
 	}
 
+	decisions.inc({ source: searchee.label, decision: assessment.decision });
+	emitEvent(EventType.DECISION, {
+		searchee: searchee.title,
+		source: searchee.label,
+		name,
+		tracker,
+		guid,
+		decision: assessment.decision,
+		infoHash: assessment.metafile?.infoHash ?? null,
+	});
 	logDecision(
 		searchee,
 		candidate,
@@ -0,0 +1,191 @@
+import chalk from "chalk";
+import ms from "ms";
+import { RefinementCtx, z } from "zod";
+import {
+	Decision,
+	isAnyMatchedDecision,
+	UNKNOWN_TRACKER,
+} from "./constants.js";
+import { db } from "./db.js";
+import { humanReadableDate, nMsAgo } from "./utils.js";
+
+export interface DecisionHistoryEntry {
+	id: number;
+	searchee: string;
+	guid: string;
+	/**
+	 * UNKNOWN_TRACKER for decisions recorded before the tracker was saved
+	 */
+	tracker: string;
+	infoHash: string | null;
+	decision: Decision;
+	firstSeen: number;
+	lastSeen: number;
+}
+
+export interface DecisionHistoryPage {
+	total: number;
+	limit: number;
+	offset: number;
+	decisions: DecisionHistoryEntry[];
+}
+
+/**
+ * Accepts an epoch timestamp in ms, a duration ago (https://github.com/vercel/ms),
+ * or anything Date.parse understands
+ */
+export function transformTimeBound(value: string, ctx: RefinementCtx): number {
+	if (/^\d+$/.test(value)) return Number(value);
+	const duration = ms(value);
+	if (!isNaN(duration)) return nMsAgo(duration);
+	const date = Date.parse(value);
+	if (!isNaN(date)) return date;
+	ctx.addIssue({
+		code: "custom",
+		message: `Invalid time: "${value}" - use a timestamp, date, or duration such as 7d`,
+	});
+	return z.NEVER;
+}
+
+const toArray = (value: unknown) =>
+	typeof value === "string"
+		? value.split(",").filter(Boolean)
+		: Array.isArray(value)
+			? value.flatMap((v) => String(v).split(",")).filter(Boolean)
+			: value;
+
+export const DECISION_QUERY_SCHEMA = z
+	.object({
+		name: z.string().min(1).optional(),
+		infoHash: z
+			.string()
+			.transform((infoHash) => infoHash.toLowerCase())
+			.optional(),
+		guid: z.string().min(1).optional(),
+		tracker: z.string().min(1).optional(),
+		indexer: z.string().min(1).optional(),
+		decision: z
+			.preprocess(toArray, z.array(z.nativeEnum(Decision)))
+			.optional(),
+		since: z.string().transform(transformTimeBound).optional(),
+		until: z.string().transform(transformTimeBound).optional(),
+		limit: z.coerce.number().int().min(1).max(1000).default(50),
+		offset: z.coerce.number().int().min(0).default(0),
+	})
+	.strict();
+
+export type DecisionQuery = z.infer<typeof DECISION_QUERY_SCHEMA>;
+
+/**
+ * @param indexer the id, name, or url of the indexer
+ * @return the tracker its decisions are recorded under, null if it is unknown
+ * or hasn't responded with its name yet
+ */
+async function getIndexerTracker(indexer: string): Promise<string | null> {
+	const row = await db("indexer")
+		.where((builder) =>
+			/^\d+$/.test(indexer)
+				? builder.where({ id: Number(indexer) })
+				: builder.whereLike("name", indexer).orWhere({ url: indexer }),
+		)
+		.select("name")
+		.first();
+	return row?.name ?? null;
+}
+
+/**
+ * Queries the decision table for past assessments, most recent first.
+ * Filtering by UNKNOWN_TRACKER matches the decisions recorded before the
+ * tracker was saved.
+ */
+export async function queryDecisions(
+	query: DecisionQuery,
+): Promise<DecisionHistoryPage> {
+	const { name, infoHash, guid, tracker, indexer, decision, since, until } =
+		query;
+	let filtered = db("decision").join(
+		"searchee",
+		"decision.searchee_id",
+		"searchee.id",
+	);
+	if (name) filtered = filtered.whereLike("searchee.name", `%${name}%`);
+	if (infoHash) filtered = filtered.where("decision.info_hash", infoHash);
+	if (guid) filtered = filtered.where("decision.guid", guid);
+	if (tracker) {
+		filtered =
+			tracker.toLowerCase() === UNKNOWN_TRACKER.toLowerCase()
+				? filtered.where((builder) =>
+						builder
+							.whereNull("decision.tracker")
+							.orWhereLike("decision.tracker", tracker),
+					)
+				: filtered.whereLike("decision.tracker", tracker);
+	}
+	if (indexer) {
+		const indexerTracker = await getIndexerTracker(indexer);
+		filtered = indexerTracker
+			? filtered.whereLike("decision.tracker", indexerTracker)
+			: filtered.whereRaw("0");
+	}
+	if (decision?.length) {
+		filtered = filtered.whereIn("decision.decision", decision);
+	}
+	if (since !== undefined) {
+		filtered = filtered.where("decision.last_seen", ">=", since);
+	}
+	if (until !== undefined) {
+		filtered = filtered.where("decision.last_seen", "<=", until);
+	}
+
+	const { total } = (await filtered
+		.clone()
+		.count({ total: "*" })
+		.first()) as { total: number };
+	const decisions: DecisionHistoryEntry[] = await filtered
+		.clone()
+		.select({
+			id: "decision.id",
+			searchee: "searchee.name",
+			guid: "decision.guid",
+			tracker: db.raw("coalesce(decision.tracker, ?)", [UNKNOWN_TRACKER]),
+			infoHash: "decision.info_hash",
+			decision: "decision.decision",
+			firstSeen: "decision.first_seen",
+			lastSeen: "decision.last_seen",
+		})
+		.orderBy([
+			{ column: "decision.last_seen", order: "desc" },
+			{ column: "decision.id", order: "desc" },
+		])
+		.limit(query.limit)
+		.offset(query.offset);
+
+	return { total, limit: query.limit, offset: query.offset, decisions };
+}
+
+/**
+ * Human readable summary of a page of decisions for the CLI
+ */
+export function formatDecisionHistory(page: DecisionHistoryPage): string {
+	const { total, offset, decisions } = page;
+	if (!decisions.length) {
+		return total
+			? `No decisions at offset ${offset} (${total} total)`
+			: "No decisions found";
+	}
+	const lines = decisions.map((entry) => {
+		const decision = isAnyMatchedDecision(entry.decision)
+			? chalk.green(entry.decision)
+			: chalk.yellow(entry.decision);
+		return [
+			`${humanReadableDate(entry.lastSeen)} ${decision} on ${chalk.bold(entry.tracker)}`,
+			`\tsearchee: ${entry.searchee}`,
+			`\tguid: ${entry.guid}`,
+			`\tinfoHash: ${entry.infoHash ?? "none"}, first seen ${humanReadableDate(entry.firstSeen)}`,
+		].join("\n");
+	});
+	lines.push(
+		`Showing ${offset + 1}-${offset + decisions.length} of ${total}`,
+	);
+	return lines.join("\n");
+}
@@ -0,0 +1,80 @@
+import { EventEmitter } from "events";
+import { ActionResult, Decision } from "./constants.js";
+import { IndexerStatus } from "./indexers.js";
+
+export enum EventType {
+	JOB_START = "jobStart",
+	JOB_FINISH = "jobFinish",
+	RSS_CANDIDATE = "rssCandidate",
+	DECISION = "decision",
+	ACTION = "action",
+	INDEXER_SNOOZE = "indexerSnooze",
+}
+
+interface EventPayloads {
+	[EventType.JOB_START]: { name: string };
+	[EventType.JOB_FINISH]: {
+		name: string;
+		durationMs: number;
+		error: string | null;
+	};
+	[EventType.RSS_CANDIDATE]: {
+		name: string;
+		tracker: string;
+		guid: string;
+		decision: Decision | null;
+		actionResult: ActionResult | null;
+	};
+	[EventType.DECISION]: {
+		searchee: string;
+		source: string;
+		name: string;
+		tracker: string;
+		guid: string;
+		decision: Decision;
+		infoHash: string | null;
+	};
+	[EventType.ACTION]: {
+		searchee: string;
+		source: string;
+		name: string;
+		tracker: string;
+		decision: Decision;
+		infoHash: string;
+		result: ActionResult;
+	};
+	[EventType.INDEXER_SNOOZE]: {
+		indexerIds: number[];
+		names: string[];
+		status: IndexerStatus;
+		retryAfter: number;
+	};
+}
+
+export type CrossSeedEvent = {
+	[T in EventType]: { type: T; timestamp: number; data: EventPayloads[T] };
+}[EventType];
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+/**
+ * Publishes an event to all subscribers, a no-op if nobody is listening
+ */
+export function emitEvent<T extends EventType>(
+	type: T,
+	data: EventPayloads[T],
+): void {
+	if (!emitter.listenerCount("event")) return;
+	emitter.emit("event", { type, timestamp: Date.now(), data });
+}
+
+/**
+ * @returns a function to unsubscribe the listener
+ */
+export function subscribeToEvents(
+	listener: (event: CrossSeedEvent) => void,
+): () => void {
+	emitter.on("event", listener);
+	return () => emitter.off("event", listener);
+}
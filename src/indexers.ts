@@ -1,6 +1,9 @@
 import { db } from "./db.js";
+import { emitEvent, EventType } from "./events.js";
 import { Label, logger } from "./logger.js";
-import { humanReadableDate } from "./utils.js";
+import { getTorznabEntries } from "./prowlarr.js";
+import { TorznabEntry } from "./runtimeConfig.js";
+import { humanReadableDate, sanitizeUrl } from "./utils.js";
 
 export enum IndexerStatus {
 	/**
@@ -9,6 +12,11 @@ export enum IndexerStatus {
 	OK = "OK",
 	RATE_LIMITED = "RATE_LIMITED",
 	UNKNOWN_ERROR = "UNKNOWN_ERROR",
+	/**
+	 * Too many consecutive failures, a single probe request is sent once
+	 * retryAfter passes
+	 */
+	CIRCUIT_OPEN = "CIRCUIT_OPEN",
 }
 
 export interface DbIndexer {
@@ -21,8 +29,13 @@ export interface DbIndexer {
 	 * Whether the indexer is currently specified in config
 	 */
 	active: boolean;
+	/**
+	 * Whether the indexer has been manually disabled via the API
+	 */
+	disabled: boolean;
 	status: IndexerStatus;
 	retryAfter: number;
+	consecutiveFailures: number;
 	searchCap: boolean;
 	tvSearchCap: boolean;
 	movieSearchCap: boolean;
@@ -51,6 +64,14 @@ export interface IndexerCategories {
 export interface IndexerLimits {
 	default: number;
 	max: number;
+	/**
+	 * Requests per day, advertised by some newznab style indexers
+	 */
+	apiMax?: number;
+	/**
+	 * Grabs per day, advertised by some newznab style indexers
+	 */
+	grabMax?: number;
 }
 
 export interface Caps {
@@ -83,8 +104,13 @@ export interface Indexer {
 	 * Whether the indexer is currently specified in config
 	 */
 	active: boolean;
+	/**
+	 * Whether the indexer has been manually disabled via the API
+	 */
+	disabled: boolean;
 	status: IndexerStatus;
 	retryAfter: number;
+	consecutiveFailures: number;
 	searchCap: boolean;
 	tvSearchCap: boolean;
 	movieSearchCap: boolean;
@@ -104,8 +130,10 @@ const allFields = {
 	apikey: "apikey",
 	trackers: "trackers",
 	active: "active",
+	disabled: "disabled",
 	status: "status",
 	retryAfter: "retry_after",
+	consecutiveFailures: "consecutive_failures",
 	searchCap: "search_cap",
 	tvSearchCap: "tv_search_cap",
 	movieSearchCap: "movie_search_cap",
@@ -172,6 +200,28 @@ export async function getAllIndexers(): Promise<Indexer[]> {
 	return (await db("indexer").select(allFields)).map(deserialize);
 }
 
+/**
+ * @param indexerUrl the sanitized url stored for the indexer
+ * @return the config entry of the indexer, its settings take precedence over
+ * the global ones. undefined if the indexer is no longer in config or
+ * discovered from Prowlarr.
+ */
+export function getTorznabEntry(indexerUrl: string): TorznabEntry | undefined {
+	return getTorznabEntries().find(
+		(entry) => sanitizeUrl(entry.url) === indexerUrl,
+	);
+}
+
+export async function getIndexerById(
+	indexerId: number,
+): Promise<Indexer | undefined> {
+	const dbIndexer = await db("indexer")
+		.where({ id: indexerId })
+		.select(allFields)
+		.first();
+	return dbIndexer ? deserialize(dbIndexer) : undefined;
+}
+
 /**
  * All indexers that users currently have configured regardless of whether they are working.
  */
@@ -199,7 +249,7 @@ export async function getEnabledIndexers(): Promise<Indexer[]> {
 				cat_caps: null,
 				limits_caps: null,
 			})
-			.where({ active: true, search_cap: true })
+			.where({ active: true, disabled: false, search_cap: true })
 			.where((i) =>
 				i
 					.where({ status: null })
@@ -228,9 +278,51 @@ export async function updateIndexerStatus(
 			retry_after: retryAfter,
 			status,
 		});
+		emitEvent(EventType.INDEXER_SNOOZE, {
+			indexerIds,
+			names: Array.from(indexerNames),
+			status,
+			retryAfter,
+		});
 	}
 }
 
+/**
+ * @return the number of consecutive failures including this one
+ */
+export async function incrementIndexerFailures(
+	indexerId: number,
+): Promise<number> {
+	await db("indexer")
+		.where({ id: indexerId })
+		.increment("consecutive_failures", 1);
+	return (
+		await db("indexer")
+			.where({ id: indexerId })
+			.select({ consecutiveFailures: "consecutive_failures" })
+			.first()
+	).consecutiveFailures;
+}
+
+/**
+ * @return the status of the indexer before it was reset, null if it had no
+ * failures to reset
+ */
+export async function resetIndexerFailures(
+	indexerId: number,
+): Promise<IndexerStatus | null> {
+	const dbIndexer = await db("indexer")
+		.where({ id: indexerId })
+		.where("consecutive_failures", ">", 0)
+		.select({ status: "status" })
+		.first();
+	if (!dbIndexer) return null;
+	await db("indexer")
+		.where({ id: indexerId })
+		.update({ consecutive_failures: 0, status: null, retry_after: null });
+	return dbIndexer.status ?? IndexerStatus.OK;
+}
+
 export async function updateSearchTimestamps(
 	name: string,
 	indexerIds: number[],
@@ -273,13 +365,24 @@ export async function updateIndexerCapsById(indexerId: number, caps: Caps) {
 		});
 }
 
-export async function clearIndexerFailures() {
-	await db("indexer").update({
+/**
+ * @param indexerId only clear this indexer, otherwise all indexers
+ */
+export async function clearIndexerFailures(indexerId?: number) {
+	const query = db("indexer");
+	await (
+		indexerId === undefined ? query : query.where({ id: indexerId })
+	).update({
 		status: null,
 		retry_after: null,
+		consecutive_failures: 0,
 	});
 }
 
+export async function setIndexerDisabled(indexerId: number, disabled: boolean) {
+	await db("indexer").where({ id: indexerId }).update({ disabled });
+}
+
 export async function getHostToNameMap(): Promise<Map<string, string>> {
 	const hostToName = new Map<string, string>();
 	for (const indexer of await getAllIndexers()) {
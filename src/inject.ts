@@ -1,5 +1,5 @@
 import chalk from "chalk";
-import { stat, unlink } from "fs/promises";
+import { stat, unlink, writeFile } from "fs/promises";
 import ms from "ms";
 import { copyFile } from "fs/promises";
 import path, { basename } from "path";
@@ -11,6 +11,7 @@ import {
 } from "./clients/TorrentClient.js";
 import { appDir } from "./configuration.js";
 import {
+	Action,
 	ActionResult,
 	Decision,
 	DecisionAnyMatch,
@@ -24,6 +25,7 @@ import {
 } from "./constants.js";
 import { assessCandidate } from "./decide.js";
 import { getHostToNameMap } from "./indexers.js";
+import { JobRunStats } from "./jobRuns.js";
 import { Label, logger } from "./logger.js";
 import { Metafile } from "./parseTorrent.js";
 import { findAllSearchees } from "./pipeline.js";
@@ -67,6 +69,23 @@ type AllMatches = {
 	actionResult?: ActionResult;
 }[];
 
+export type ManualInjectionError =
+	| "INVALID_TORRENT"
+	| "SEARCHEE_NOT_FOUND"
+	| "ACTION_NOT_INJECT";
+
+export interface ManualInjection {
+	name: string;
+	infoHash: string;
+	tracker: string;
+	result: InjectionResult | "FAILED_TO_PARSE" | "BLOCKED" | "UNMATCHED";
+	matches: {
+		searchee: string;
+		decision: DecisionAnyMatch;
+		actionResult?: ActionResult;
+	}[];
+}
+
 type InjectSummary = {
 	TOTAL: number;
 	INJECTED: number;
@@ -585,14 +604,19 @@ async function injectSavedTorrent(
 	summary: InjectSummary,
 	searchees: SearcheeWithLabel[],
 	ignoreTitles: boolean,
-) {
+): Promise<
+	Result<
+		{ injectionResult: InjectionResult; clientMatches: AllMatches },
+		"FAILED_TO_PARSE" | "BLOCKED" | "UNMATCHED"
+	>
+> {
 	const { blockList } = getRuntimeConfig();
 	const metafileResult = await loadMetafile(
 		torrentFilePath,
 		progress,
 		summary,
 	);
-	if (metafileResult.isErr()) return;
+	if (metafileResult.isErr()) return resultOfErr(metafileResult.unwrapErr());
 	const { meta, tracker } = metafileResult.unwrap();
 	const filePathLog = getTorrentFilePathLog(torrentFilePath);
 
@@ -603,7 +627,7 @@ async function injectSavedTorrent(
 			message: `${progress} ${filePathLog} ${chalk.yellow(`is in the blockList: ${metaBlockedString}`)}`,
 		});
 		summary.BLOCKED++;
-		return;
+		return resultOfErr("BLOCKED");
 	}
 
 	const { matches, foundBlocked, fuzzyFail } =
@@ -636,7 +660,7 @@ async function injectSavedTorrent(
 		} else {
 			await deleteTorrentFileIfSafe(torrentFilePath);
 		}
-		return;
+		return resultOfErr(foundBlocked ? "BLOCKED" : "UNMATCHED");
 	}
 
 	const {
@@ -679,6 +703,7 @@ async function injectSavedTorrent(
 			await injectionTorrentNotComplete(injectionAftermath);
 			break;
 	}
+	return resultOf({ injectionResult, clientMatches });
 }
 
 function logInjectSummary(summary: InjectSummary, flatLinking: boolean) {
@@ -723,6 +748,21 @@ function logInjectSummary(summary: InjectSummary, flatLinking: boolean) {
 	}
 }
 
+function summaryToStats(summary: InjectSummary): JobRunStats {
+	return {
+		total: summary.TOTAL,
+		injected: summary.INJECTED,
+		fullMatches: summary.FULL_MATCHES,
+		partialMatches: summary.PARTIAL_MATCHES,
+		alreadyExists: summary.ALREADY_EXISTS,
+		incompleteCandidates: summary.INCOMPLETE_CANDIDATES,
+		incompleteSearchees: summary.INCOMPLETE_SEARCHEES,
+		blocked: summary.BLOCKED,
+		failed: summary.FAILED,
+		unmatched: summary.UNMATCHED,
+	};
+}
+
 function createSummary(total: number): InjectSummary {
 	return {
 		TOTAL: total,
@@ -740,7 +780,12 @@ function createSummary(total: number): InjectSummary {
 	};
 }
 
-export async function injectSavedTorrents(): Promise<void> {
+/**
+ * @param options.signal stops between torrents once aborted
+ */
+export async function injectSavedTorrents(options?: {
+	signal?: AbortSignal;
+}): Promise<JobRunStats> {
 	const { flatLinking, ignoreTitles, injectDir, outputDir } =
 		getRuntimeConfig();
 	const targetDir = injectDir ?? outputDir;
@@ -765,7 +810,7 @@ export async function injectSavedTorrents(): Promise<void> {
 			label: Label.INJECT,
 			message: `No torrent files are awaiting injection in ${targetDirLog}`,
 		});
-		return;
+		return summaryToStats(createSummary(0));
 	}
 	logger.info({
 		label: Label.INJECT,
@@ -778,12 +823,20 @@ export async function injectSavedTorrents(): Promise<void> {
 	});
 	const searchees = [...realSearchees, ...ensembleSearchees];
 	for (const [i, torrentFilePath] of torrentFilePaths.entries()) {
+		if (options?.signal?.aborted) {
+			logger.info({
+				label: Label.INJECT,
+				message: `Stopping injection (${options.signal.reason}) with ${torrentFilePaths.length - i} torrent file(s) remaining`,
+			});
+			summary.TOTAL = i;
+			break;
+		}
 		const progress = chalk.blue(`(${i + 1}/${torrentFilePaths.length})`);
 		await withMutex(
 			Mutex.CLIENT_INJECTION,
 			{ useQueue: true },
 			async () => {
-				return injectSavedTorrent(
+				await injectSavedTorrent(
 					progress,
 					torrentFilePath,
 					summary,
@@ -801,6 +854,90 @@ export async function injectSavedTorrents(): Promise<void> {
 		});
 		await Promise.all(summary.PROMISES);
 	}
+	return summaryToStats(summary);
+}
+
+/**
+ * Injects a single torrent, e.g. one uploaded through the api. The torrent is
+ * saved to the inject directory first so the inject job retries it if it can't
+ * be completed now.
+ * @param options.infoHash only match against the searchee with this infoHash
+ * @param options.path only match against the searchee with this path
+ */
+export async function injectTorrentFile(
+	torrent: Buffer,
+	options: { infoHash?: string; path?: string },
+): Promise<Result<ManualInjection, ManualInjectionError>> {
+	const { action, ignoreTitles, injectDir, outputDir } = getRuntimeConfig();
+	if (action !== Action.INJECT) return resultOfErr("ACTION_NOT_INJECT");
+	let meta: Metafile;
+	try {
+		meta = Metafile.decode(torrent);
+	} catch (e) {
+		logger.error({
+			label: Label.INJECT,
+			message: `Failed to parse uploaded torrent: ${e.message}`,
+		});
+		logger.debug(e);
+		return resultOfErr("INVALID_TORRENT");
+	}
+
+	const realSearchees = await findAllSearchees(Label.INJECT);
+	const searchees =
+		options.infoHash || options.path
+			? realSearchees.filter(
+					(searchee) =>
+						(options.infoHash &&
+							searchee.infoHash === options.infoHash) ||
+						(options.path && searchee.path === options.path),
+				)
+			: [
+					...realSearchees,
+					...(await createEnsembleSearchees(realSearchees, {
+						useFilters: false,
+					})),
+				];
+	if (!searchees.length) return resultOfErr("SEARCHEE_NOT_FOUND");
+
+	const hostToName = await getHostToNameMap();
+	const trackerHost = meta.trackers.find((h) => hostToName.has(h));
+	const tracker = trackerHost
+		? hostToName.get(trackerHost)!
+		: UNKNOWN_TRACKER;
+	const torrentFilePath = getTorrentSavePath(
+		meta,
+		getMediaType(meta),
+		tracker,
+		injectDir ?? outputDir,
+		{ cached: false },
+	);
+	await writeFile(torrentFilePath, torrent);
+
+	const summary = createSummary(1);
+	const res = await withMutex(
+		Mutex.CLIENT_INJECTION,
+		{ useQueue: true },
+		async () =>
+			injectSavedTorrent(
+				chalk.blue("(1/1)"),
+				torrentFilePath,
+				summary,
+				searchees,
+				ignoreTitles ?? false,
+			),
+	);
+	const clientMatches = res.isOk() ? res.unwrap().clientMatches : [];
+	return resultOf({
+		name: meta.name,
+		infoHash: meta.infoHash,
+		tracker,
+		result: res.isOk() ? res.unwrap().injectionResult : res.unwrapErr(),
+		matches: clientMatches.map(({ searchee, decision, actionResult }) => ({
+			searchee: searchee.title,
+			decision,
+			actionResult,
+		})),
+	});
 }
 
 export async function restoreFromTorrentCache(): Promise<void> {
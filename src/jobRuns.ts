@@ -0,0 +1,146 @@
+import chalk from "chalk";
+import ms from "ms";
+import { z } from "zod";
+import { db } from "./db.js";
+import { transformTimeBound } from "./decisionHistory.js";
+import { humanReadableDate, nMsAgo } from "./utils.js";
+
+/**
+ * Job specific counters, e.g. the number of candidates checked by rss
+ */
+export type JobRunStats = Record<string, number>;
+
+export enum JobRunOutcome {
+	SUCCESS = "success",
+	FAILURE = "failure",
+	CANCELLED = "cancelled",
+	PAUSED = "paused",
+}
+
+export interface JobRun {
+	id: number;
+	name: string;
+	startedAt: number;
+	finishedAt: number;
+	outcome: JobRunOutcome;
+	error: string | null;
+	stats: JobRunStats | null;
+}
+
+export interface JobRunPage {
+	total: number;
+	limit: number;
+	offset: number;
+	runs: JobRun[];
+}
+
+const JOB_RUN_RETENTION = ms("90 days");
+
+export const JOB_RUN_QUERY_SCHEMA = z
+	.object({
+		name: z.string().min(1).optional(),
+		outcome: z.nativeEnum(JobRunOutcome).optional(),
+		since: z.string().transform(transformTimeBound).optional(),
+		until: z.string().transform(transformTimeBound).optional(),
+		limit: z.coerce.number().int().min(1).max(1000).default(50),
+		offset: z.coerce.number().int().min(0).default(0),
+	})
+	.strict();
+
+export type JobRunQuery = z.infer<typeof JOB_RUN_QUERY_SCHEMA>;
+
+export async function recordJobRun(run: Omit<JobRun, "id">): Promise<void> {
+	await db("job_run").insert({
+		name: run.name,
+		started_at: run.startedAt,
+		finished_at: run.finishedAt,
+		outcome: run.outcome,
+		error: run.error,
+		stats: run.stats ? JSON.stringify(run.stats) : null,
+	});
+}
+
+/**
+ * Queries the job run history, most recent first
+ */
+export async function queryJobRuns(query: JobRunQuery): Promise<JobRunPage> {
+	const { name, outcome, since, until } = query;
+	let filtered = db("job_run");
+	if (name) filtered = filtered.where({ name });
+	if (outcome) filtered = filtered.where({ outcome });
+	if (since !== undefined)
+		filtered = filtered.where("started_at", ">=", since);
+	if (until !== undefined)
+		filtered = filtered.where("started_at", "<=", until);
+
+	const { total } = (await filtered
+		.clone()
+		.count({ total: "*" })
+		.first()) as { total: number };
+	const rows = await filtered
+		.clone()
+		.select({
+			id: "id",
+			name: "name",
+			startedAt: "started_at",
+			finishedAt: "finished_at",
+			outcome: "outcome",
+			error: "error",
+			stats: "stats",
+		})
+		.orderBy([
+			{ column: "started_at", order: "desc" },
+			{ column: "id", order: "desc" },
+		])
+		.limit(query.limit)
+		.offset(query.offset);
+	const runs: JobRun[] = rows.map((row) => ({
+		...row,
+		stats: JSON.parse(row.stats ?? "null"),
+	}));
+
+	return { total, limit: query.limit, offset: query.offset, runs };
+}
+
+/**
+ * Deletes runs older than the retention period
+ * @return the number of runs deleted
+ */
+export async function pruneJobRuns(): Promise<number> {
+	return db("job_run")
+		.where("started_at", "<", nMsAgo(JOB_RUN_RETENTION))
+		.del();
+}
+
+/**
+ * Human readable summary of a page of job runs for the CLI
+ */
+export function formatJobRuns(page: JobRunPage): string {
+	const { total, offset, runs } = page;
+	if (!runs.length) {
+		return total
+			? `No job runs at offset ${offset} (${total} total)`
+			: "No job runs found";
+	}
+	const lines = runs.map((run) => {
+		const outcome =
+			run.outcome === JobRunOutcome.SUCCESS
+				? chalk.green(run.outcome)
+				: run.outcome === JobRunOutcome.FAILURE
+					? chalk.red(run.outcome)
+					: chalk.yellow(run.outcome);
+		const entryLines = [
+			`${humanReadableDate(run.startedAt)} ${chalk.bold(run.name)} ${outcome} in ${ms(run.finishedAt - run.startedAt)}`,
+		];
+		if (run.stats) {
+			const stats = Object.entries(run.stats)
+				.map(([key, value]) => `${key}: ${value}`)
+				.join(", ");
+			entryLines.push(`\t${stats}`);
+		}
+		if (run.error) entryLines.push(`\terror: ${run.error}`);
+		return entryLines.join("\n");
+	});
+	lines.push(`Showing ${offset + 1}-${offset + runs.length} of ${total}`);
+	return lines.join("\n");
+}
@@ -2,11 +2,20 @@ import ms from "ms";
 import { Action } from "./constants.js";
 import { cleanupDB, db } from "./db.js";
 import { exitOnCrossSeedErrors } from "./errors.js";
+import { emitEvent, EventType } from "./events.js";
 import { injectSavedTorrents } from "./inject.js";
+import { JobRunOutcome, JobRunStats, recordJobRun } from "./jobRuns.js";
 import { Label, logger } from "./logger.js";
+import {
+	jobActive,
+	jobDurationSeconds,
+	jobLastDurationSeconds,
+	jobRuns,
+} from "./metrics.js";
 import { bulkSearch, scanRssFeeds } from "./pipeline.js";
 import { getRuntimeConfig, RuntimeConfig } from "./runtimeConfig.js";
-import { updateCaps } from "./torznab.js";
+import { msUntilQuietHoursEnd, nextCronRun } from "./schedule.js";
+import { updateIndexersAndCaps } from "./torznab.js";
 import { humanReadableDate, Mutex, withMutex } from "./utils.js";
 
 export enum JobName {
@@ -17,92 +26,276 @@ export enum JobName {
 	CLEANUP = "cleanup",
 }
 
+export enum JobControl {
+	CANCEL = "cancel",
+	PAUSE = "pause",
+}
+
+/**
+ * Jobs that check for cancellation between searchees or torrents
+ */
+export const CANCELLABLE_JOBS = [JobName.SEARCH, JobName.INJECT];
+
+/**
+ * Jobs that never start during quiet hours
+ */
+export const QUIET_HOURS_JOBS = [JobName.SEARCH, JobName.CLEANUP];
+
 const jobs: Job[] = [];
 
 class Job {
 	name: JobName;
 	cadence: number;
-	exec: () => Promise<void>;
+	/**
+	 * Runs at the times of this cron expression instead of on the cadence
+	 */
+	cron: string | null;
+	/**
+	 * The reference for the first cron run if the job has never run
+	 */
+	scheduledAt: number;
+	exec: (signal: AbortSignal) => Promise<JobRunStats | void>;
 	isActive: boolean;
+	/**
+	 * Paused jobs are not scheduled until they are resumed
+	 */
+	isPaused: boolean;
+	abortController: AbortController | null;
 	runAheadOfSchedule: boolean;
 	delayNextRun: boolean;
 	configOverride: Partial<RuntimeConfig>;
 
-	constructor(name: JobName, cadence: number, exec: () => Promise<void>) {
+	constructor(
+		name: JobName,
+		cadence: number,
+		exec: (signal: AbortSignal) => Promise<JobRunStats | void>,
+		cron?: string | null,
+	) {
 		this.name = name;
 		this.cadence = cadence;
+		this.cron = cron ?? null;
+		this.scheduledAt = Date.now();
 		this.exec = exec;
 		this.isActive = false;
+		this.isPaused = false;
+		this.abortController = null;
 		this.runAheadOfSchedule = false;
 		this.delayNextRun = false;
 		this.configOverride = {};
 	}
 
+	/**
+	 * @return whether the run counts as the last run, false if the job was
+	 * already active or was paused partway through. A cancelled run counts so
+	 * that it isn't started again until its next scheduled run.
+	 */
 	async run(): Promise<boolean> {
 		if (this.isActive) return false;
 		this.isActive = true;
+		this.abortController = new AbortController();
+		const { signal } = this.abortController;
+		jobActive.set({ job: this.name }, 1);
+		emitEvent(EventType.JOB_START, { name: this.name });
+		const start = Date.now();
+		let error: string | null = null;
+		let stats: JobRunStats | null = null;
 		try {
 			logger.info({
 				label: Label.SCHEDULER,
 				message: `starting job: ${this.name}`,
 			});
 			if (this.runAheadOfSchedule && this.name === JobName.SEARCH) {
-				await bulkSearch({ configOverride: this.configOverride });
+				stats = await bulkSearch({
+					configOverride: this.configOverride,
+					signal,
+				});
 			} else {
-				await this.exec();
+				stats = (await this.exec(signal)) ?? null;
 			}
+		} catch (e) {
+			error = e instanceof Error ? e.message : String(e);
+			throw e;
 		} finally {
+			const end = Date.now();
+			const durationMs = end - start;
+			const outcome =
+				error !== null
+					? JobRunOutcome.FAILURE
+					: !signal.aborted
+						? JobRunOutcome.SUCCESS
+						: signal.reason === JobControl.PAUSE
+							? JobRunOutcome.PAUSED
+							: JobRunOutcome.CANCELLED;
+			jobRuns.inc({ job: this.name, outcome });
+			jobDurationSeconds.inc({ job: this.name }, durationMs / 1000);
+			jobLastDurationSeconds.set({ job: this.name }, durationMs / 1000);
+			jobActive.set({ job: this.name }, 0);
+			emitEvent(EventType.JOB_FINISH, {
+				name: this.name,
+				durationMs,
+				error,
+			});
 			this.isActive = false;
+			this.abortController = null;
+			if (signal.aborted) this.delayNextRun = false;
 			this.runAheadOfSchedule = false;
 			this.configOverride = {};
+			try {
+				await recordJobRun({
+					name: this.name,
+					startedAt: start,
+					finishedAt: end,
+					outcome,
+					error,
+					stats,
+				});
+			} catch (e) {
+				logger.error({
+					label: Label.SCHEDULER,
+					message: `${this.name}: failed to record run history: ${e.message}`,
+				});
+				logger.debug(e);
+			}
+		}
+		return signal.reason !== JobControl.PAUSE;
+	}
+
+	/**
+	 * Stops the job between searchees or torrents, pausing also holds the
+	 * job until it is resumed
+	 */
+	stop(control: JobControl): void {
+		if (control === JobControl.PAUSE) this.isPaused = true;
+		this.abortController?.abort(control);
+	}
+
+	/**
+	 * @return the timestamp the job is eligible to run at, 0 if it has never run
+	 */
+	getNextRun(lastRun: number | undefined | null): number {
+		if (this.cron) {
+			return (
+				nextCronRun(this.cron, lastRun ?? this.scheduledAt) ??
+				Number.MAX_SAFE_INTEGER
+			);
 		}
-		return true;
+		return lastRun ? lastRun + this.cadence : 0;
 	}
 }
 
-function createJobs(): void {
-	const { action, rssCadence, searchCadence, torznab } = getRuntimeConfig();
+function createJobs(): Job[] {
+	const {
+		action,
+		cleanupCron,
+		injectCron,
+		rssCadence,
+		rssCron,
+		searchCadence,
+		searchCron,
+		prowlarr,
+		torznab,
+	} = getRuntimeConfig();
+	const configuredJobs: Job[] = [];
 	if (rssCadence) {
-		jobs.push(new Job(JobName.RSS, rssCadence, scanRssFeeds));
+		configuredJobs.push(
+			new Job(JobName.RSS, rssCadence, scanRssFeeds, rssCron),
+		);
 	}
 	if (searchCadence) {
-		jobs.push(new Job(JobName.SEARCH, searchCadence, bulkSearch));
+		configuredJobs.push(
+			new Job(
+				JobName.SEARCH,
+				searchCadence,
+				(signal) => bulkSearch({ configOverride: {}, signal }),
+				searchCron,
+			),
+		);
 	}
-	if (torznab.length > 0) {
-		jobs.push(
-			new Job(JobName.UPDATE_INDEXER_CAPS, ms("1 day"), updateCaps),
+	if (torznab.length > 0 || prowlarr) {
+		configuredJobs.push(
+			new Job(
+				JobName.UPDATE_INDEXER_CAPS,
+				ms("1 day"),
+				updateIndexersAndCaps,
+			),
 		);
 	}
 	if (action === Action.INJECT) {
-		jobs.push(new Job(JobName.INJECT, ms("1 hour"), injectSavedTorrents));
+		configuredJobs.push(
+			new Job(
+				JobName.INJECT,
+				ms("1 hour"),
+				(signal) => injectSavedTorrents({ signal }),
+				injectCron,
+			),
+		);
+	}
+	configuredJobs.push(
+		new Job(JobName.CLEANUP, ms("1 day"), cleanupDB, cleanupCron),
+	);
+	return configuredJobs;
+}
+
+/**
+ * Adds, removes, or updates the schedule of jobs to match the runtime config.
+ * Existing jobs are kept so that a running job is never started twice.
+ */
+export function syncJobsWithConfig(): void {
+	const configuredJobs = createJobs();
+	for (const job of jobs.slice()) {
+		const configuredJob = configuredJobs.find((j) => j.name === job.name);
+		if (!configuredJob) {
+			jobs.splice(jobs.indexOf(job), 1);
+			logger.info({
+				label: Label.SCHEDULER,
+				message: `${job.name}: removed from schedule`,
+			});
+		} else if (configuredJob.cadence !== job.cadence) {
+			logger.info({
+				label: Label.SCHEDULER,
+				message: `${job.name}: cadence changed from ${ms(job.cadence)} to ${ms(configuredJob.cadence)}`,
+			});
+			job.cadence = configuredJob.cadence;
+		}
+		if (configuredJob && configuredJob.cron !== job.cron) {
+			logger.info({
+				label: Label.SCHEDULER,
+				message: `${job.name}: schedule changed from ${job.cron ?? "cadence"} to ${configuredJob.cron ?? "cadence"}`,
+			});
+			job.cron = configuredJob.cron;
+			job.scheduledAt = configuredJob.scheduledAt;
+		}
+	}
+	for (const configuredJob of configuredJobs) {
+		if (jobs.some((j) => j.name === configuredJob.name)) continue;
+		jobs.push(configuredJob);
 	}
-	jobs.push(new Job(JobName.CLEANUP, ms("1 day"), cleanupDB));
 }
 
 export function getJobs(): Job[] {
 	return jobs;
 }
 
-function logNextRun(
-	name: string,
-	cadence: number,
-	lastRun: number | undefined | null,
-) {
+function logNextRun(job: Job, lastRun: number | undefined | null) {
 	const now = Date.now();
 
-	const eligibilityTs = lastRun ? lastRun + cadence : now;
+	const eligibilityTs = job.getNextRun(lastRun);
 
 	const lastRunStr = !lastRun
 		? "never"
 		: now >= lastRun
 			? `${ms(now - lastRun)} ago`
-			: `at ${humanReadableDate(lastRun - cadence)}`;
+			: `at ${humanReadableDate(lastRun - job.cadence)}`;
 	const nextRunStr =
-		now >= eligibilityTs ? "now" : `in ${ms(eligibilityTs - now)}`;
+		now >= eligibilityTs
+			? "now"
+			: job.cron
+				? `at ${humanReadableDate(eligibilityTs)}`
+				: `in ${ms(eligibilityTs - now)}`;
 
 	logger.info({
 		label: Label.SCHEDULER,
-		message: `${name}: last run ${lastRunStr}, next run ${nextRunStr}`,
+		message: `${job.name}: last run ${lastRunStr}, next run ${nextRunStr}`,
 	});
 }
 
@@ -121,11 +314,17 @@ export async function checkJobs(
 		{ useQueue: options.useQueue },
 		async () => {
 			const now = Date.now();
+			const inQuietHours =
+				msUntilQuietHoursEnd(getRuntimeConfig().quietHours, now) > 0;
 			for (const job of jobs) {
 				const lastRun = await getJobLastRun(job.name);
-				const eligibilityTs = lastRun ? lastRun + job.cadence : now;
+				const eligibilityTs = job.getNextRun(lastRun);
 				if (options.isFirstRun) {
-					logNextRun(job.name, job.cadence, lastRun);
+					logNextRun(job, lastRun);
+				}
+				if (job.isPaused) continue;
+				if (inQuietHours && QUIET_HOURS_JOBS.includes(job.name)) {
+					continue;
 				}
 
 				if (!job.runAheadOfSchedule) {
@@ -140,7 +339,7 @@ export async function checkJobs(
 				if (job.runAheadOfSchedule || now >= eligibilityTs) {
 					job.run()
 						.then(async (didRun) => {
-							if (!didRun) return; // upon success, update the log
+							if (!didRun) return; // unless paused, update the log
 							const toDelay = job.delayNextRun;
 							job.delayNextRun = false;
 							const last_run = toDelay ? now + job.cadence : now;
@@ -148,10 +347,7 @@ export async function checkJobs(
 								.insert({ name: job.name, last_run })
 								.onConflict("name")
 								.merge();
-							const cadence = toDelay
-								? job.cadence * 2
-								: job.cadence;
-							logNextRun(job.name, cadence, now);
+							logNextRun(job, last_run);
 						})
 						.catch(exitOnCrossSeedErrors)
 						.catch((e) => void logger.error(e));
@@ -162,7 +358,7 @@ export async function checkJobs(
 }
 
 export async function jobsLoop(): Promise<void> {
-	createJobs();
+	jobs.push(...createJobs());
 
 	setInterval(checkJobs, ms("1 minute"));
 	await checkJobs({ isFirstRun: true, useQueue: false });
@@ -0,0 +1,126 @@
+type MetricType = "counter" | "gauge";
+export type MetricLabels = Record<string, string | number>;
+
+const metrics: Metric[] = [];
+
+/**
+ * Escapes a label value for the Prometheus text exposition format.
+ */
+function escapeLabelValue(value: string | number): string {
+	return String(value)
+		.replace(/\\/g, "\\\\")
+		.replace(/"/g, '\\"')
+		.replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: MetricLabels): string {
+	const entries = Object.entries(labels);
+	if (!entries.length) return "";
+	return `{${entries
+		.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`)
+		.join(",")}}`;
+}
+
+export class Metric {
+	name: string;
+	help: string;
+	type: MetricType;
+	private values = new Map<string, { labels: MetricLabels; value: number }>();
+
+	constructor(name: string, help: string, type: MetricType) {
+		this.name = name;
+		this.help = help;
+		this.type = type;
+	}
+
+	private getEntry(labels: MetricLabels) {
+		const key = formatLabels(labels);
+		let entry = this.values.get(key);
+		if (!entry) {
+			entry = { labels, value: 0 };
+			this.values.set(key, entry);
+		}
+		return entry;
+	}
+
+	inc(labels: MetricLabels = {}, n = 1): void {
+		this.getEntry(labels).value += n;
+	}
+
+	set(labels: MetricLabels, value: number): void {
+		if (this.type === "counter") {
+			throw new Error(`Cannot set counter ${this.name}`);
+		}
+		this.getEntry(labels).value = value;
+	}
+
+	render(): string {
+		const lines = [
+			`# HELP ${this.name} ${this.help}`,
+			`# TYPE ${this.name} ${this.type}`,
+		];
+		for (const { labels, value } of this.values.values()) {
+			lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+		}
+		return lines.join("\n");
+	}
+}
+
+function createMetric(name: string, help: string, type: MetricType): Metric {
+	const metric = new Metric(name, help, type);
+	metrics.push(metric);
+	return metric;
+}
+
+export const torznabRequests = createMetric(
+	"cross_seed_torznab_requests_total",
+	"Torznab requests made to each indexer by outcome",
+	"counter",
+);
+export const snatches = createMetric(
+	"cross_seed_snatches_total",
+	"Torrent file downloads by tracker and outcome (OK or a SnatchError)",
+	"counter",
+);
+export const decisions = createMetric(
+	"cross_seed_decisions_total",
+	"Candidate assessments by source and Decision",
+	"counter",
+);
+export const actionResults = createMetric(
+	"cross_seed_action_results_total",
+	"Actions performed on matches by source and InjectionResult/SaveResult",
+	"counter",
+);
+export const jobRuns = createMetric(
+	"cross_seed_job_runs_total",
+	"Job runs by job name and outcome",
+	"counter",
+);
+export const jobDurationSeconds = createMetric(
+	"cross_seed_job_duration_seconds_total",
+	"Total time spent running each job",
+	"counter",
+);
+export const jobLastDurationSeconds = createMetric(
+	"cross_seed_job_last_duration_seconds",
+	"Duration of the most recent run of each job",
+	"gauge",
+);
+export const jobActive = createMetric(
+	"cross_seed_job_active",
+	"Whether each job is currently running",
+	"gauge",
+);
+export const apiRequests = createMetric(
+	"cross_seed_api_requests_total",
+	"HTTP API requests by endpoint and status code",
+	"counter",
+);
+
+/**
+ * Renders all metrics in the Prometheus text exposition format.
+ */
+export function renderMetrics(): string {
+	return `${metrics.map((metric) => metric.render()).join("\n\n")}\n`;
+}
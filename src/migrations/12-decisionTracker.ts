@@ -0,0 +1,19 @@
+import Knex from "knex";
+
+async function up(knex: Knex.Knex): Promise<void> {
+	await knex.schema.alterTable("decision", (table) => {
+		table.string("tracker");
+		table.index("tracker", "idx_decision_tracker");
+		table.index("last_seen", "idx_decision_last_seen");
+	});
+}
+
+async function down(knex: Knex.Knex): Promise<void> {
+	await knex.schema.alterTable("decision", (table) => {
+		table.dropIndex("last_seen", "idx_decision_last_seen");
+		table.dropIndex("tracker", "idx_decision_tracker");
+		table.dropColumn("tracker");
+	});
+}
+
+export default { name: "12-decisionTracker", up, down };
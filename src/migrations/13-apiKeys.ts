@@ -0,0 +1,18 @@
+import Knex from "knex";
+
+async function up(knex: Knex.Knex): Promise<void> {
+	await knex.schema.createTable("api_key", (table) => {
+		table.increments("id").primary();
+		table.string("name").notNullable().unique();
+		table.string("key_hash").notNullable().unique();
+		table.json("scopes").notNullable();
+		table.integer("created_at").notNullable();
+		table.integer("last_used_at");
+	});
+}
+
+async function down(knex: Knex.Knex): Promise<void> {
+	await knex.schema.dropTable("api_key");
+}
+
+export default { name: "13-apiKeys", up, down };
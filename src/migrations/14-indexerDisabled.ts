@@ -0,0 +1,15 @@
+import Knex from "knex";
+
+async function up(knex: Knex.Knex): Promise<void> {
+	await knex.schema.alterTable("indexer", (table) => {
+		table.boolean("disabled").notNullable().defaultTo(false);
+	});
+}
+
+async function down(knex: Knex.Knex): Promise<void> {
+	await knex.schema.alterTable("indexer", (table) => {
+		table.dropColumn("disabled");
+	});
+}
+
+export default { name: "14-indexerDisabled", up, down };
@@ -0,0 +1,20 @@
+import Knex from "knex";
+
+async function up(knex: Knex.Knex): Promise<void> {
+	await knex.schema.createTable("job_run", (table) => {
+		table.increments("id").primary();
+		table.string("name").notNullable();
+		table.integer("started_at").notNullable();
+		table.integer("finished_at").notNullable();
+		table.string("outcome").notNullable();
+		table.string("error");
+		table.json("stats");
+		table.index(["name", "started_at"]);
+	});
+}
+
+async function down(knex: Knex.Knex): Promise<void> {
+	await knex.schema.dropTable("job_run");
+}
+
+export default { name: "15-jobRuns", up, down };
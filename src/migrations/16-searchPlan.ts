@@ -0,0 +1,17 @@
+import Knex from "knex";
+
+async function up(knex: Knex.Knex): Promise<void> {
+	await knex.schema.createTable("search_plan", (table) => {
+		table.increments("id").primary();
+		table.json("query_keys").notNullable();
+		table.integer("cursor").notNullable();
+		table.integer("started_at").notNullable();
+		table.integer("updated_at").notNullable();
+	});
+}
+
+async function down(knex: Knex.Knex): Promise<void> {
+	await knex.schema.dropTable("search_plan");
+}
+
+export default { name: "16-searchPlan", up, down };
@@ -0,0 +1,20 @@
+import Knex from "knex";
+
+async function up(knex: Knex.Knex): Promise<void> {
+	await knex.schema.createTable("indexer_rate_limit", (table) => {
+		table.integer("indexer_id").references("id").inTable("indexer");
+		table.string("kind").notNullable();
+		table.string("window").notNullable();
+		table.integer("capacity").notNullable();
+		table.float("tokens").notNullable();
+		table.integer("updated_at").notNullable();
+		table.string("source").notNullable();
+		table.primary(["indexer_id", "kind", "window"]);
+	});
+}
+
+async function down(knex: Knex.Knex): Promise<void> {
+	await knex.schema.dropTable("indexer_rate_limit");
+}
+
+export default { name: "17-indexerRateLimits", up, down };
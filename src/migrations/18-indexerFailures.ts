@@ -0,0 +1,15 @@
+import Knex from "knex";
+
+async function up(knex: Knex.Knex): Promise<void> {
+	await knex.schema.alterTable("indexer", (table) => {
+		table.integer("consecutive_failures").notNullable().defaultTo(0);
+	});
+}
+
+async function down(knex: Knex.Knex): Promise<void> {
+	await knex.schema.alterTable("indexer", (table) => {
+		table.dropColumn("consecutive_failures");
+	});
+}
+
+export default { name: "18-indexerFailures", up, down };
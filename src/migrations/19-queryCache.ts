@@ -0,0 +1,17 @@
+import Knex from "knex";
+
+async function up(knex: Knex.Knex): Promise<void> {
+	await knex.schema.createTable("query_cache", (table) => {
+		table.integer("indexer_id").references("id").inTable("indexer");
+		table.string("query").notNullable();
+		table.json("candidates").notNullable();
+		table.integer("created_at").notNullable();
+		table.primary(["indexer_id", "query"]);
+	});
+}
+
+async function down(knex: Knex.Knex): Promise<void> {
+	await knex.schema.dropTable("query_cache");
+}
+
+export default { name: "19-queryCache", up, down };
@@ -0,0 +1,25 @@
+import Knex from "knex";
+
+async function up(knex: Knex.Knex): Promise<void> {
+	await knex.schema.createTable("recent_candidate", (table) => {
+		table.increments("id").primary();
+		table.string("guid").notNullable();
+		table.string("name").notNullable();
+		table.string("tracker").notNullable();
+		table.string("link").notNullable();
+		table.integer("size");
+		table.integer("pub_date");
+		table.integer("indexer_id").references("id").inTable("indexer");
+		table.string("info_hash");
+		table.string("cookie");
+		table.string("label").notNullable();
+		table.integer("seen_at").notNullable();
+		table.unique(["guid", "tracker"]);
+	});
+}
+
+async function down(knex: Knex.Knex): Promise<void> {
+	await knex.schema.dropTable("recent_candidate");
+}
+
+export default { name: "20-recentCandidates", up, down };
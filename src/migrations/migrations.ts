@@ -10,6 +10,15 @@ import rss from "./08-rss.js";
 import clientAndDataSearchees from "./09-clientAndDataSearchees.js";
 import indexerNameAudioBookCaps from "./10-indexerNameAudioBookCaps.js";
 import trackers from "./11-trackers.js";
+import decisionTracker from "./12-decisionTracker.js";
+import apiKeys from "./13-apiKeys.js";
+import indexerDisabled from "./14-indexerDisabled.js";
+import jobRuns from "./15-jobRuns.js";
+import searchPlan from "./16-searchPlan.js";
+import indexerRateLimits from "./17-indexerRateLimits.js";
+import indexerFailures from "./18-indexerFailures.js";
+import queryCache from "./19-queryCache.js";
+import recentCandidates from "./20-recentCandidates.js";
 
 export const migrations = {
 	getMigrations: () =>
@@ -26,6 +35,15 @@ export const migrations = {
 			clientAndDataSearchees,
 			indexerNameAudioBookCaps,
 			trackers,
+			decisionTracker,
+			apiKeys,
+			indexerDisabled,
+			jobRuns,
+			searchPlan,
+			indexerRateLimits,
+			indexerFailures,
+			queryCache,
+			recentCandidates,
 		]),
 	getMigrationName: (migration) => migration.name,
 	getMigration: (migration) => migration,
@@ -6,6 +6,7 @@ import { basename } from "path";
 import { performAction, performActions } from "./action.js";
 import { byClientHostPriority, getClients } from "./clients/TorrentClient.js";
 import {
+	Action,
 	ActionResult,
 	Decision,
 	DecisionAnyMatch,
@@ -23,13 +24,16 @@ import {
 	getGuidInfoHashMap,
 	ResultAssessment,
 } from "./decide.js";
+import { emitEvent, EventType } from "./events.js";
 import {
 	getActiveIndexers,
+	getTorznabEntry,
 	IndexerStatus,
 	updateIndexerStatus,
 	updateSearchTimestamps,
 } from "./indexers.js";
-import { getJobLastRun, JobName } from "./jobs.js";
+import { JobRunStats } from "./jobRuns.js";
+import { getJobLastRun, JobControl, JobName } from "./jobs.js";
 import { Label, logger } from "./logger.js";
 import {
 	filterByContent,
@@ -37,8 +41,14 @@ import {
 	filterTimestamps,
 } from "./preFilter.js";
 import { sendResultsNotification } from "./pushNotifier.js";
+import { formatQueryCacheHitRate } from "./queryCache.js";
+import {
+	matchRecentCandidates,
+	rememberRecentCandidate,
+} from "./recentCandidates.js";
 import { isOk } from "./Result.js";
 import { getRuntimeConfig, RuntimeConfig } from "./runtimeConfig.js";
+import { msUntilQuietHoursEnd } from "./schedule.js";
 import {
 	createEnsembleSearchees,
 	createSearcheeFromPath,
@@ -50,6 +60,13 @@ import {
 	SearcheeLabel,
 	SearcheeWithLabel,
 } from "./searchee.js";
+import {
+	clearSearchPlan,
+	createSearchPlan,
+	getSearchPlan,
+	SearchPlan,
+	updateSearchPlanCursor,
+} from "./searchPlan.js";
 import {
 	getInfoHashesToExclude,
 	getSimilarByName,
@@ -63,6 +80,7 @@ import {
 	getSearchString,
 	queryRssFeeds,
 	searchTorznab,
+	trackBulkSearchCount,
 } from "./torznab.js";
 import {
 	AsyncSemaphore,
@@ -80,6 +98,7 @@ import {
 	notExists,
 	reduceAsync,
 	stripExtension,
+	wait,
 	withMutex,
 	WithRequired,
 } from "./utils.js";
@@ -93,6 +112,10 @@ export interface Candidate {
 	pubDate?: number;
 	indexerId?: number;
 	cookie?: string;
+	/**
+	 * Reported by the indexer, checked before snatching
+	 */
+	infoHash?: string;
 }
 
 export type CandidateWithIndexerId = WithRequired<Candidate, "indexerId">;
@@ -102,9 +125,41 @@ export interface AssessmentWithTracker {
 	tracker: string;
 }
 
+export interface CandidateReport {
+	name: string;
+	guid: string;
+	tracker: string;
+	indexerId: number;
+	decision: Decision;
+	/**
+	 * The action taken on a match, or that would have been taken in a dry run
+	 */
+	action: Action | null;
+	actionResult: ActionResult | null;
+}
+
+export interface SearcheeReport {
+	searchee: string;
+	infoHash: string | null;
+	path: string | null;
+	filtered: boolean;
+	error: string | null;
+	indexers: { id: number; name: string | null; cached: boolean }[];
+	candidates: CandidateReport[];
+}
+
+export interface ConsideredSearchee {
+	searchee: string;
+	infoHash: string | null;
+	path: string | null;
+	decision: Decision;
+	action: Action | null;
+	actionResult: ActionResult | null;
+}
+
 interface FoundOnOtherSites {
-	searchedIndexers: number;
 	matches: number;
+	report: Pick<SearcheeReport, "indexers" | "candidates">;
 }
 
 async function assessCandidates(
@@ -146,8 +201,9 @@ async function findOnOtherSites(
 	indexerSearchCount: Map<number, number>,
 	cachedSearch: CachedSearch,
 	progress: string,
-	options?: { configOverride: Partial<RuntimeConfig> },
+	options?: { configOverride: Partial<RuntimeConfig>; dryRun?: boolean },
 ): Promise<FoundOnOtherSites> {
+	const { action } = getRuntimeConfig(options?.configOverride);
 	// make sure searchee is in database
 	await db("searchee")
 		.insert({ name: searchee.title })
@@ -191,6 +247,9 @@ async function findOnOtherSites(
 				rateLimitedNames.add(indexer.name ?? indexer.url);
 				acc.rateLimited.add(candidate.indexerId);
 				acc.notRateLimited.delete(candidate.indexerId);
+			} else if (cur.assessment.decision === Decision.GRAB_DEFERRED) {
+				// searched again later without snoozing the indexer
+				acc.notRateLimited.delete(candidate.indexerId);
 			}
 			return acc;
 		},
@@ -203,9 +262,16 @@ async function findOnOtherSites(
 	const matches = assessments.filter((e) =>
 		isAnyMatchedDecision(e.assessment.decision),
 	);
-	const actionResults = await performActions(searchee, matches);
+	const actionResults = options?.dryRun
+		? []
+		: await performActions(searchee, matches);
 
-	await updateSearchTimestamps(searchee.title, Array.from(notRateLimited));
+	if (!options?.dryRun) {
+		await updateSearchTimestamps(
+			searchee.title,
+			Array.from(notRateLimited),
+		);
+	}
 
 	await updateIndexerStatus(
 		IndexerStatus.RATE_LIMITED,
@@ -219,65 +285,143 @@ async function findOnOtherSites(
 		matches.map((m) => m.tracker),
 		actionResults,
 	);
-	sendResultsNotification(searchee, zipped);
+	if (!options?.dryRun) sendResultsNotification(searchee, zipped);
+
+	const actionResultsByMatch = new Map(
+		matches.map((match, idx) => [match, actionResults[idx]]),
+	);
+	const report = {
+		indexers: response.map(({ indexerId }, idx) => ({
+			id: indexerId,
+			name: activeIndexers.find((i) => i.id === indexerId)?.name ?? null,
+			cached: idx < cachedIndexers,
+		})),
+		candidates: assessments.map((assessment, idx) => ({
+			name: candidates[idx].name,
+			guid: candidates[idx].guid,
+			tracker: candidates[idx].tracker,
+			indexerId: candidates[idx].indexerId,
+			decision: assessment.assessment.decision,
+			action: isAnyMatchedDecision(assessment.assessment.decision)
+				? action
+				: null,
+			actionResult: actionResultsByMatch.get(assessment) ?? null,
+		})),
+	};
 
-	return { searchedIndexers, matches: matches.length };
+	return { matches: matches.length, report };
 }
 
+/**
+ * Searches the queries of the plan from its cursor, advancing the cursor as
+ * each query starts.
+ * @param grouping the searchees of each query
+ * @param options.signal stops between searchees once aborted
+ * @return stopped is whether the signal stopped the search before the end
+ */
 async function findMatchesBatch(
-	searchees: SearcheeWithLabel[],
+	plan: SearchPlan,
+	grouping: Map<string, SearcheeWithLabel[]>,
 	infoHashesToExclude: Set<string>,
-	options?: { configOverride: Partial<RuntimeConfig> },
+	options: {
+		configOverride: Partial<RuntimeConfig>;
+		signal?: AbortSignal;
+	},
 ) {
-	const { searchLimit } = getRuntimeConfig(options?.configOverride);
+	const { quietHours, searchLimit } = getRuntimeConfig(
+		options.configOverride,
+	);
 
+	const indexerSearchLimits = new Map(
+		(await getActiveIndexers()).map((indexer) => [
+			indexer.id,
+			getTorznabEntry(indexer.url)?.searchLimit ?? searchLimit,
+		]),
+	);
 	const indexerSearchCount = new Map<number, number>();
 	let totalFound = 0;
+	let searched = 0;
+	let stopped = false;
 	const cachedSearch: CachedSearch = {
 		q: null,
 		indexerCandidates: [],
-		lastSearch: 0,
 	};
-	for (const [i, searchee] of searchees.entries()) {
-		const progress = chalk.blue(`(${i + 1}/${searchees.length}) `);
-		const prevSearch = cachedSearch.lastSearch;
-		try {
-			const { searchedIndexers, matches } = await findOnOtherSites(
-				searchee,
-				infoHashesToExclude,
-				indexerSearchCount,
-				cachedSearch,
-				progress,
-				options,
-			);
-			totalFound += matches;
-
-			if (
-				searchLimit &&
-				indexerSearchCount.size &&
-				Array.from(indexerSearchCount.values()).every(
-					(n) => n >= searchLimit,
-				)
-			) {
+	const queue = plan.queryKeys.flatMap((key, queryIndex) =>
+		queryIndex < plan.cursor
+			? []
+			: (grouping.get(key) ?? []).map((searchee) => ({
+					searchee,
+					queryIndex,
+				})),
+	);
+	const untrackSearchCount = trackBulkSearchCount(indexerSearchCount);
+	try {
+		for (const [i, { searchee, queryIndex }] of queue.entries()) {
+			const quietHoursRemaining = msUntilQuietHoursEnd(quietHours);
+			if (quietHoursRemaining && !options.signal?.aborted) {
 				logger.info({
 					label: searchee.label,
-					message: `Reached searchLimit of ${searchLimit} on all indexers`,
+					message: `Pausing search during quiet hours until ${humanReadableDate(Date.now() + quietHoursRemaining)}`,
 				});
+				await wait(quietHoursRemaining, options.signal);
+			}
+			if (options.signal?.aborted) {
+				logger.info({
+					label: searchee.label,
+					message: `Stopping search (${options.signal.reason}) with ${queue.length - i} searchees remaining`,
+				});
+				stopped = true;
 				break;
 			}
+			if (queryIndex !== plan.cursor) {
+				plan.cursor = queryIndex;
+				await updateSearchPlanCursor(queryIndex);
+			}
+			const progress = chalk.blue(
+				`(${queryIndex + 1}/${plan.queryKeys.length}) `,
+			);
+			searched++;
+			try {
+				const { matches } = await findOnOtherSites(
+					searchee,
+					infoHashesToExclude,
+					indexerSearchCount,
+					cachedSearch,
+					progress,
+					options,
+				);
+				totalFound += matches;
 
-			// if all indexers were rate limited or cached, don't sleep
-			if (searchedIndexers === 0) cachedSearch.lastSearch = prevSearch;
-		} catch (e) {
-			const searcheeLog = getLogString(searchee, chalk.bold.white);
-			logger.error({
-				label: searchee.label,
-				message: `${progress}Error searching for ${searcheeLog}: ${e.message}`,
-			});
-			logger.debug(e);
+				if (
+					indexerSearchCount.size &&
+					Array.from(indexerSearchCount).every(([indexerId, n]) => {
+						const limit = indexerSearchLimits.get(indexerId);
+						return !!limit && n >= limit;
+					})
+				) {
+					logger.info({
+						label: searchee.label,
+						message: "Reached searchLimit on all indexers",
+					});
+					break;
+				}
+			} catch (e) {
+				const searcheeLog = getLogString(searchee, chalk.bold.white);
+				logger.error({
+					label: searchee.label,
+					message: `${progress}Error searching for ${searcheeLog}: ${e.message}`,
+				});
+				logger.debug(e);
+			}
 		}
+	} finally {
+		untrackSearchCount();
 	}
-	return totalFound;
+	const queries = Array.from(indexerSearchCount.values()).reduce(
+		(sum, n) => sum + n,
+		0,
+	);
+	return { searched, queries, totalFound, stopped };
 }
 
 export async function searchForLocalTorrentByCriteria(
@@ -285,9 +429,11 @@ export async function searchForLocalTorrentByCriteria(
 	options: {
 		configOverride: Partial<RuntimeConfig>;
 		ignoreCrossSeeds: boolean;
+		searchReports?: SearcheeReport[];
+		dryRun?: boolean;
 	},
 ): Promise<number | null> {
-	const { maxDataDepth, searchLimit } = getRuntimeConfig();
+	const { maxDataDepth } = getRuntimeConfig();
 
 	const rawSearchees: Searchee[] = [];
 	if (!criteria.path) {
@@ -331,6 +477,11 @@ export async function searchForLocalTorrentByCriteria(
 			}, new Map<string | undefined, number>())
 			.values(),
 	).some((v) => v === 1);
+	if (!options.dryRun) {
+		await matchRecentCandidates(
+			searchees.map((searchee) => searchee.title),
+		);
+	}
 	const infoHashesToExclude = await getInfoHashesToExclude();
 	const indexerSearchCount = new Map<number, number>();
 	let totalFound = 0;
@@ -338,11 +489,19 @@ export async function searchForLocalTorrentByCriteria(
 	const cachedSearch: CachedSearch = {
 		q: null,
 		indexerCandidates: [],
-		lastSearch: 0,
 	};
 	for (const [i, searchee] of searchees.entries()) {
 		const progress = chalk.blue(`(${i + 1}/${searchees.length}) `);
-		const prevSearch = cachedSearch.lastSearch;
+		const searcheeReport: SearcheeReport = {
+			searchee: searchee.title,
+			infoHash: searchee.infoHash ?? null,
+			path: searchee.path ?? null,
+			filtered: false,
+			error: null,
+			indexers: [],
+			candidates: [],
+		};
+		options.searchReports?.push(searcheeReport);
 		try {
 			if (
 				!(await filterByContent(searchee, {
@@ -352,9 +511,10 @@ export async function searchForLocalTorrentByCriteria(
 				}))
 			) {
 				filtered++;
+				searcheeReport.filtered = true;
 				continue;
 			}
-			const { matches, searchedIndexers } = await findOnOtherSites(
+			const { matches, report } = await findOnOtherSites(
 				searchee,
 				infoHashesToExclude,
 				indexerSearchCount,
@@ -363,24 +523,9 @@ export async function searchForLocalTorrentByCriteria(
 				options,
 			);
 			totalFound += matches;
-
-			if (
-				searchLimit &&
-				indexerSearchCount.size &&
-				Array.from(indexerSearchCount.values()).every(
-					(n) => n >= searchLimit,
-				)
-			) {
-				logger.info({
-					label: searchee.label,
-					message: `Reached searchLimit of ${searchLimit} on all indexers`,
-				});
-				break;
-			}
-
-			// if all indexers were rate limited, don't sleep
-			if (searchedIndexers === 0) cachedSearch.lastSearch = prevSearch;
+			Object.assign(searcheeReport, report);
 		} catch (e) {
+			searcheeReport.error = e.message;
 			const searcheeLog = getLogString(searchee, chalk.bold.white);
 			logger.error({
 				label: searchee.label,
@@ -530,10 +675,14 @@ const checkNewCandidateMatchSemaphore = new AsyncSemaphore({
 export async function checkNewCandidateMatch(
 	candidate: Candidate,
 	searcheeLabel: SearcheeLabel,
+	options?: { dryRun?: boolean },
 ): Promise<{
 	decision: DecisionAnyMatch | Decision.INFO_HASH_ALREADY_EXISTS | null;
 	actionResult: ActionResult | null;
+	considered: ConsideredSearchee[];
 }> {
+	const { action } = getRuntimeConfig();
+	const considered: ConsideredSearchee[] = [];
 	const searchees: SearcheeWithLabel[] = [];
 	const methods: string[] = [];
 	const semaphoreId = await checkNewCandidateMatchSemaphore.acquire();
@@ -551,7 +700,16 @@ export async function checkNewCandidateMatch(
 			searchees.push(...ensemble.searchees);
 			methods.push(ensemble.method);
 		}
-		if (!searchees.length) return { decision: null, actionResult: null };
+		if (!searchees.length) {
+			if (
+				!options?.dryRun &&
+				(searcheeLabel === Label.RSS ||
+					searcheeLabel === Label.ANNOUNCE)
+			) {
+				await rememberRecentCandidate(candidate, searcheeLabel);
+			}
+			return { decision: null, actionResult: null, considered };
+		}
 	} finally {
 		checkNewCandidateMatchSemaphore.release(semaphoreId);
 	}
@@ -587,18 +745,34 @@ export async function checkNewCandidateMatch(
 			infoHashesToExclude,
 			guidInfoHashMap,
 		);
+		const consideredSearchee: ConsideredSearchee = {
+			searchee: searchee.title,
+			infoHash: searchee.infoHash ?? null,
+			path: searchee.path ?? null,
+			decision: assessment.decision,
+			action: isAnyMatchedDecision(assessment.decision) ? action : null,
+			actionResult: null,
+		};
+		considered.push(consideredSearchee);
 		if (assessment.decision === Decision.INFO_HASH_ALREADY_EXISTS) {
 			decision = assessment.decision;
 			break; // In client before rss/announce
 		}
 		if (!isAnyMatchedDecision(assessment.decision)) continue;
 
+		if (options?.dryRun) {
+			// Assume the action would succeed, partial matches keep trying
+			decision = assessment.decision;
+			if (assessment.decision !== Decision.MATCH_PARTIAL) break;
+			continue;
+		}
 		const actionReturn = await performAction(
 			assessment.metafile!,
 			assessment.decision,
 			searchee,
 			candidate.tracker,
 		);
+		consideredSearchee.actionResult = actionReturn.actionResult;
 		if (actionReturn.actionResult === SaveResult.SAVED) {
 			decision = assessment.decision;
 			actionResult = actionReturn.actionResult;
@@ -643,7 +817,7 @@ export async function checkNewCandidateMatch(
 	if (actionResult === InjectionResult.SUCCESS) {
 		void indexTorrentsAndDataDirs();
 	}
-	return { decision, actionResult };
+	return { decision, actionResult, considered };
 }
 
 export async function findAllSearchees(
@@ -720,10 +894,13 @@ export async function findAllSearchees(
 	}));
 }
 
+/**
+ * @return grouping is the searchees of each unique query, in search order
+ */
 async function findSearchableTorrents(options?: {
 	configOverride: Partial<RuntimeConfig>;
 }): Promise<{
-	searchees: SearcheeWithLabel[];
+	grouping: Map<string, SearcheeWithLabel[]>;
 	infoHashesToExclude: Set<string>;
 }> {
 	const { excludeOlder, excludeRecentSearch, searchLimit } = getRuntimeConfig(
@@ -791,11 +968,11 @@ async function findSearchableTorrents(options?: {
 		);
 		grouping.set(key, filteredSearchees);
 	}
-	const finalSearchees = Array.from(grouping.values()).flat();
+	const searcheeCount = Array.from(grouping.values()).flat().length;
 
 	logger.info({
 		label: Label.SEARCH,
-		message: `Found ${realSearchees.length + ensembleSearchees.length} torrents, ${finalSearchees.length} suitable to search for matches using ${grouping.size} unique queries`,
+		message: `Found ${realSearchees.length + ensembleSearchees.length} torrents, ${searcheeCount} suitable to search for matches using ${grouping.size} unique queries`,
 	});
 
 	if (searchLimit && grouping.size > searchLimit) {
@@ -805,20 +982,54 @@ async function findSearchableTorrents(options?: {
 		});
 	}
 
-	return { searchees: finalSearchees, infoHashesToExclude };
+	return { grouping, infoHashesToExclude };
 }
 
+/**
+ * Continues the persisted search plan if a previous pass was interrupted or
+ * paused, queries that were not part of it wait for the next pass.
+ * @param options.signal stops between searchees once aborted, if aborted with
+ * JobControl.PAUSE the plan is kept so the next bulk search continues it
+ */
 export async function bulkSearch(options?: {
 	configOverride: Partial<RuntimeConfig>;
-}): Promise<void> {
-	const { searchees, infoHashesToExclude } =
+	signal?: AbortSignal;
+}): Promise<JobRunStats> {
+	const { grouping, infoHashesToExclude } =
 		await findSearchableTorrents(options);
 
-	const totalFound = await findMatchesBatch(
-		searchees,
+	const hasOverride = Object.values(options?.configOverride ?? {}).some(
+		(v) => v !== undefined,
+	);
+	let plan = await getSearchPlan();
+	if (plan && hasOverride) {
+		logger.info({
+			label: Label.SEARCH,
+			message: `Discarding the search started at ${humanReadableDate(plan.startedAt)} to search with the requested options`,
+		});
+		plan = null;
+	}
+	if (plan) {
+		logger.info({
+			label: Label.SEARCH,
+			message: `Continuing the search started at ${humanReadableDate(plan.startedAt)} from query ${plan.cursor + 1}/${plan.queryKeys.length}`,
+		});
+	} else {
+		plan = await createSearchPlan(Array.from(grouping.keys()));
+	}
+
+	const { searched, queries, totalFound, stopped } = await findMatchesBatch(
+		plan,
+		grouping,
 		infoHashesToExclude,
-		options,
+		{
+			configOverride: options?.configOverride ?? {},
+			signal: options?.signal,
+		},
 	);
+	if (!stopped || options?.signal?.reason !== JobControl.PAUSE) {
+		await clearSearchPlan();
+	}
 
 	logger.info({
 		label: Label.SEARCH,
@@ -826,23 +1037,30 @@ export async function bulkSearch(options?: {
 			`Found ${chalk.bold.white(
 				totalFound,
 			)} cross seeds from ${chalk.bold.white(
-				searchees.length,
+				searched,
 			)} original torrents`,
 		),
 	});
+	if (getRuntimeConfig().queryCacheTtl) {
+		logger.verbose({
+			label: Label.SEARCH,
+			message: `Query cache hit rate: ${formatQueryCacheHitRate()}`,
+		});
+	}
+	return { searchees: searched, queries, matches: totalFound };
 }
 
-export async function scanRssFeeds() {
-	const { dataDirs, torrentDir, torznab, useClientTorrents } =
+export async function scanRssFeeds(): Promise<JobRunStats | void> {
+	const { dataDirs, torrentDir, torznab, prowlarr, useClientTorrents } =
 		getRuntimeConfig();
 	if (
-		!torznab.length ||
+		(!torznab.length && !prowlarr) ||
 		(!useClientTorrents && !torrentDir && !dataDirs.length)
 	) {
 		logger.error({
 			label: Label.RSS,
 			message:
-				"RSS requires torznab and at least one of useClientTorrents, torrentDir, or dataDirs to be set",
+				"RSS requires torznab or prowlarr and at least one of useClientTorrents, torrentDir, or dataDirs to be set",
 		});
 		return;
 	}
@@ -854,10 +1072,22 @@ export async function scanRssFeeds() {
 	const lastRun = (await getJobLastRun(JobName.RSS)) ?? 0;
 	await indexTorrentsAndDataDirs();
 	let numCandidates = 0;
+	let numMatches = 0;
 	await mapAsync(await queryRssFeeds(lastRun), async (candidates) => {
 		for await (const candidate of candidates) {
-			await checkNewCandidateMatch(candidate, Label.RSS);
+			const { decision, actionResult } = await checkNewCandidateMatch(
+				candidate,
+				Label.RSS,
+			);
+			emitEvent(EventType.RSS_CANDIDATE, {
+				name: candidate.name,
+				tracker: candidate.tracker,
+				guid: candidate.guid,
+				decision,
+				actionResult,
+			});
 			numCandidates++;
+			if (decision && isAnyMatchedDecision(decision)) numMatches++;
 		}
 	});
 
@@ -865,4 +1095,5 @@ export async function scanRssFeeds() {
 		label: Label.RSS,
 		message: `RSS scan complete - checked ${numCandidates} new candidates since ${humanReadableDate(lastRun)}`,
 	});
+	return { candidates: numCandidates, matches: numMatches };
 }
@@ -16,7 +16,7 @@ import {
 	BAD_SEASON_REGEX,
 } from "./constants.js";
 import { db } from "./db.js";
-import { getEnabledIndexers } from "./indexers.js";
+import { getEnabledIndexers, getTorznabEntry } from "./indexers.js";
 import { Label, logger } from "./logger.js";
 import { getRuntimeConfig, RuntimeConfig } from "./runtimeConfig.js";
 import {
@@ -34,6 +34,7 @@ import {
 	getLogString,
 	hasExt,
 	humanReadableDate,
+	isTruthy,
 	nMsAgo,
 } from "./utils.js";
 
@@ -316,8 +317,24 @@ export async function filterTimestamps(
 ): Promise<boolean> {
 	const { excludeOlder, excludeRecentSearch, seasonFromEpisodes } =
 		getRuntimeConfig(options?.configOverride);
-	const enabledIndexers = await getEnabledIndexers();
 	const mediaType = getMediaType(searchee);
+	const searchableIndexers = (await getEnabledIndexers()).filter(
+		(indexer) =>
+			getTorznabEntry(indexer.url)?.search !== false &&
+			indexerDoesSupportMediaType(mediaType, indexer),
+	);
+	// the searchee is due if any indexer is, getAndLogIndexers picks which
+	const indexerExcludeRecentSearches = searchableIndexers.map(
+		(indexer) =>
+			options?.configOverride.excludeRecentSearch ??
+			getTorznabEntry(indexer.url)?.excludeRecentSearch ??
+			excludeRecentSearch,
+	);
+	const minExcludeRecentSearch = !indexerExcludeRecentSearches.length
+		? excludeRecentSearch
+		: indexerExcludeRecentSearches.every(isTruthy)
+			? Math.min(...indexerExcludeRecentSearches)
+			: undefined;
 	const timestampDataSql: TimestampDataSql = (await db("searchee")
 		// @ts-expect-error crossJoin supports string
 		.crossJoin("indexer")
@@ -328,11 +345,7 @@ export async function filterTimestamps(
 		.where("searchee.name", searchee.title)
 		.whereIn(
 			"indexer.id",
-			enabledIndexers
-				.filter((indexer) =>
-					indexerDoesSupportMediaType(mediaType, indexer),
-				)
-				.map((indexer) => indexer.id),
+			searchableIndexers.map((indexer) => indexer.id),
 		)
 		.min({
 			earliest_first_search: db.raw(
@@ -382,14 +395,14 @@ export async function filterTimestamps(
 		}
 	}
 
-	const skipAfter = excludeRecentSearch
-		? nMsAgo(excludeRecentSearch)
+	const skipAfter = minExcludeRecentSearch
+		? nMsAgo(minExcludeRecentSearch)
 		: Number.POSITIVE_INFINITY;
 	if (earliest_last_search && earliest_last_search > skipAfter) {
 		logFilterReason(
 			`its last search timestamp ${humanReadableDate(
 				earliest_last_search,
-			)} is newer than ${ms(excludeRecentSearch!, { long: true })} ago`,
+			)} is newer than ${ms(minExcludeRecentSearch!, { long: true })} ago`,
 			searchee,
 			mediaType,
 		);
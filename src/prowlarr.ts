@@ -0,0 +1,148 @@
+import ms from "ms";
+import { join as posixJoin } from "node:path/posix";
+import { USER_AGENT } from "./constants.js";
+import { CrossSeedError } from "./errors.js";
+import { Label, logger } from "./logger.js";
+import {
+	getRuntimeConfig,
+	RuntimeConfig,
+	TorznabEntry,
+} from "./runtimeConfig.js";
+import { formatAsList, getApikey, sanitizeUrl } from "./utils.js";
+
+interface ProwlarrIndexer {
+	id: number;
+	name: string;
+	enable: boolean;
+	protocol: string;
+	tags: number[];
+}
+
+interface ProwlarrTag {
+	id: number;
+	label: string;
+}
+
+/**
+ * The torznab entries built from the indexers of Prowlarr, kept from the last
+ * successful discovery
+ */
+let discoveredTorznab: TorznabEntry[] = [];
+
+/**
+ * @return the torznab entries in config followed by those discovered from
+ * Prowlarr. An indexer in both uses the settings of its config entry.
+ */
+export function getTorznabEntries(): TorznabEntry[] {
+	const { torznab } = getRuntimeConfig();
+	return [
+		...torznab,
+		...discoveredTorznab.filter(
+			(discovered) =>
+				!torznab.some(
+					(entry) =>
+						sanitizeUrl(entry.url) === sanitizeUrl(discovered.url),
+				),
+		),
+	];
+}
+
+async function makeProwlarrApiCall<ResponseType>(
+	prowlarrUrl: string,
+	resourcePath: string,
+): Promise<ResponseType> {
+	const url = new URL(sanitizeUrl(prowlarrUrl));
+	url.pathname = posixJoin(url.pathname, resourcePath);
+	let response: Response;
+	try {
+		response = await fetch(url, {
+			signal: AbortSignal.timeout(ms("30 seconds")),
+			headers: {
+				"X-Api-Key": getApikey(prowlarrUrl)!,
+				"User-Agent": USER_AGENT,
+			},
+		});
+	} catch (e) {
+		throw new CrossSeedError(`Could not contact Prowlarr at ${url}`, {
+			cause: e,
+		});
+	}
+	if (!response.ok) {
+		throw new CrossSeedError(
+			`Prowlarr responded to ${resourcePath} with ${response.status === 401 ? "401 Unauthorized (check apikey)" : response.status} ${response.statusText}`,
+		);
+	}
+	return (await response.json()) as ResponseType;
+}
+
+function hasAnyTag(
+	indexer: ProwlarrIndexer,
+	tags: ProwlarrTag[],
+	labels: string[],
+): boolean {
+	return indexer.tags.some((tagId) => {
+		const label = tags.find((tag) => tag.id === tagId)?.label;
+		return (
+			label !== undefined &&
+			labels.some((l) => l.toLowerCase() === label.toLowerCase())
+		);
+	});
+}
+
+/**
+ * @return the torznab entries of the enabled torrent indexers of Prowlarr that
+ * pass the prowlarrTags and prowlarrExcludeTags filters of the config
+ */
+export async function fetchProwlarrTorznab(
+	runtimeConfig: RuntimeConfig,
+): Promise<TorznabEntry[]> {
+	const { prowlarr, prowlarrTags, prowlarrExcludeTags } = runtimeConfig;
+	if (!prowlarr) return [];
+	const apikey = getApikey(prowlarr);
+	if (!apikey) {
+		throw new CrossSeedError(
+			`Prowlarr url ${prowlarr} does not specify an apikey`,
+		);
+	}
+	const [indexers, tags] = await Promise.all([
+		makeProwlarrApiCall<ProwlarrIndexer[]>(prowlarr, "/api/v1/indexer"),
+		makeProwlarrApiCall<ProwlarrTag[]>(prowlarr, "/api/v1/tag"),
+	]);
+	const selected = indexers.filter(
+		(indexer) =>
+			indexer.enable &&
+			indexer.protocol === "torrent" &&
+			(!prowlarrTags.length || hasAnyTag(indexer, tags, prowlarrTags)) &&
+			!hasAnyTag(indexer, tags, prowlarrExcludeTags),
+	);
+	const entries = selected.map((indexer) => {
+		const url = new URL(sanitizeUrl(prowlarr));
+		url.pathname = posixJoin(url.pathname, `${indexer.id}`, "api");
+		url.searchParams.set("apikey", apikey);
+		return { url: url.href, rss: true, search: true };
+	});
+	logger.info({
+		label: Label.PROWLARR,
+		message: selected.length
+			? `Discovered ${selected.length} of ${indexers.length} indexers from Prowlarr: ${formatAsList(
+					selected.map((indexer) => indexer.name),
+					{ sort: true },
+				)}`
+			: `Discovered none of ${indexers.length} indexers from Prowlarr`,
+	});
+	return entries;
+}
+
+/**
+ * @param entries the result of fetchProwlarrTorznab for the current config
+ */
+export function setDiscoveredTorznab(entries: TorznabEntry[]): void {
+	discoveredTorznab = entries;
+}
+
+/**
+ * Replaces the discovered torznab entries with those of the current config
+ */
+export async function discoverProwlarrIndexers(): Promise<void> {
+	setDiscoveredTorznab(await fetchProwlarrTorznab(getRuntimeConfig()));
+}
@@ -0,0 +1,51 @@
+import { socksDispatcher } from "fetch-socks";
+import { Dispatcher, ProxyAgent } from "undici";
+import { getTorznabEntry } from "./indexers.js";
+import { getRuntimeConfig } from "./runtimeConfig.js";
+
+const DEFAULT_SOCKS_PORT = 1080;
+
+/**
+ * Reused across requests so connections to the proxy are kept alive
+ */
+const dispatchers = new Map<string, Dispatcher>();
+
+function createDispatcher(proxy: string): Dispatcher {
+	const url = new URL(proxy);
+	if (url.protocol === "http:" || url.protocol === "https:") {
+		return new ProxyAgent(proxy);
+	}
+	return socksDispatcher({
+		type: url.protocol === "socks4:" ? 4 : 5,
+		host: url.hostname,
+		port: url.port ? Number(url.port) : DEFAULT_SOCKS_PORT,
+		userId: url.username ? decodeURIComponent(url.username) : undefined,
+		password: url.password ? decodeURIComponent(url.password) : undefined,
+	});
+}
+
+/**
+ * Tracker traffic goes through the proxy of the indexer's torznab entry,
+ * falling back to the global proxy. A torznab entry with proxy: null connects
+ * directly. Notifications go through the global proxy. Arr and torrent client
+ * traffic always connect directly.
+ * @param indexerUrl the indexer the request is made to or snatched from,
+ * undefined for the global proxy
+ * @return the dispatcher to pass to fetch, undefined to connect directly
+ */
+export function getProxyDispatcher(
+	indexerUrl: string | undefined,
+): RequestInit["dispatcher"] {
+	const entryProxy = indexerUrl
+		? getTorznabEntry(indexerUrl)?.proxy
+		: undefined;
+	const proxy =
+		entryProxy !== undefined ? entryProxy : getRuntimeConfig().proxy;
+	if (!proxy) return undefined;
+	let dispatcher = dispatchers.get(proxy);
+	if (!dispatcher) {
+		dispatcher = createDispatcher(proxy);
+		dispatchers.set(proxy, dispatcher);
+	}
+	return dispatcher;
+}
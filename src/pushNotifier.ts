@@ -11,15 +11,23 @@ import {
 } from "./constants.js";
 import { ResultAssessment } from "./decide.js";
 import { logger } from "./logger.js";
+import { getProxyDispatcher } from "./proxy.js";
 import { getRuntimeConfig } from "./runtimeConfig.js";
 import { getSearcheeSource, SearcheeWithLabel } from "./searchee.js";
-import { findFallback, formatAsList, mapAsync } from "./utils.js";
+import {
+	findFallback,
+	formatAsList,
+	humanReadableDate,
+	mapAsync,
+} from "./utils.js";
 
 export let pushNotifier: PushNotifier;
 
 enum Event {
 	TEST = "TEST",
 	RESULTS = "RESULTS",
+	INDEXER_FAILING = "INDEXER_FAILING",
+	INDEXER_RECOVERED = "INDEXER_RECOVERED",
 }
 
 type TrackerName = string;
@@ -52,6 +60,7 @@ export class PushNotifier {
 					},
 					body: JSON.stringify({ title, body, ...rest }),
 					signal: AbortSignal.timeout(ms("5 minutes")),
+					dispatcher: getProxyDispatcher(undefined),
 				});
 
 				if (!response.ok) {
@@ -190,6 +199,29 @@ export function sendResultsNotification(
 	}
 }
 
+export function sendIndexerFailingNotification(
+	indexerName: string,
+	consecutiveFailures: number,
+	retryAfter: number,
+) {
+	void pushNotifier.notify({
+		body: `${indexerName} disabled after ${consecutiveFailures} consecutive failures, retrying at ${humanReadableDate(retryAfter)}`,
+		extra: {
+			event: Event.INDEXER_FAILING,
+			name: indexerName,
+			consecutiveFailures,
+			retryAfter,
+		},
+	});
+}
+
+export function sendIndexerRecoveredNotification(indexerName: string) {
+	void pushNotifier.notify({
+		body: `${indexerName} recovered and is searched again`,
+		extra: { event: Event.INDEXER_RECOVERED, name: indexerName },
+	});
+}
+
 export function initializePushNotifier(): void {
 	const { notificationWebhookUrls } = getRuntimeConfig();
 	pushNotifier = new PushNotifier(notificationWebhookUrls);
@@ -0,0 +1,101 @@
+import { db } from "./db.js";
+import { CandidateWithIndexerId } from "./pipeline.js";
+import { nMsAgo } from "./utils.js";
+
+/**
+ * Lookups since startup, for the hit rate in the logs
+ */
+const queryCacheStats = { hits: 0, misses: 0 };
+
+/**
+ * Queries that only differ in the order of their params or the case of their
+ * values share a key
+ */
+function getQueryKey(query: object): string {
+	return JSON.stringify(
+		Object.entries(query)
+			.filter(([, value]) => value !== undefined)
+			.map(([param, value]) => [
+				param,
+				typeof value === "string" ? value.toLowerCase() : value,
+			])
+			.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)),
+	);
+}
+
+/**
+ * @return the results of the query if the indexer responded to it within ttl
+ */
+export async function getCachedQueryResults(
+	indexerId: number,
+	query: object,
+	ttl: number,
+): Promise<CandidateWithIndexerId[] | null> {
+	const row = await db("query_cache")
+		.where({ indexer_id: indexerId, query: getQueryKey(query) })
+		.where("created_at", ">=", nMsAgo(ttl))
+		.select({ candidates: "candidates" })
+		.first();
+	if (!row) {
+		queryCacheStats.misses++;
+		return null;
+	}
+	queryCacheStats.hits++;
+	return JSON.parse(row.candidates);
+}
+
+export async function cacheQueryResults(
+	indexerId: number,
+	query: object,
+	candidates: CandidateWithIndexerId[],
+): Promise<void> {
+	await db("query_cache")
+		.insert({
+			indexer_id: indexerId,
+			query: getQueryKey(query),
+			candidates: JSON.stringify(candidates),
+			created_at: Date.now(),
+		})
+		.onConflict(["indexer_id", "query"])
+		.merge();
+}
+
+/**
+ * Responds to the query from the cache, otherwise fetches and caches the results
+ * @param fetchResults makes the request to the indexer
+ * @param refresh fetch even if the results are cached
+ * @return the results and whether they came from the cache
+ */
+export async function withQueryCache(
+	indexerId: number,
+	query: object,
+	ttl: number,
+	fetchResults: () => Promise<CandidateWithIndexerId[]>,
+	refresh = false,
+): Promise<{ candidates: CandidateWithIndexerId[]; cached: boolean }> {
+	const cached = refresh
+		? null
+		: await getCachedQueryResults(indexerId, query, ttl);
+	if (cached) return { candidates: cached, cached: true };
+	const candidates = await fetchResults();
+	await cacheQueryResults(indexerId, query, candidates);
+	return { candidates, cached: false };
+}
+
+/**
+ * @param ttl delete every entry if the cache is disabled
+ * @return the number of entries deleted
+ */
+export async function pruneQueryCache(
+	ttl: number | undefined,
+): Promise<number> {
+	const query = db("query_cache");
+	return (ttl ? query.where("created_at", "<", nMsAgo(ttl)) : query).del();
+}
+
+export function formatQueryCacheHitRate(): string {
+	const { hits, misses } = queryCacheStats;
+	const total = hits + misses;
+	const rate = total ? Math.round((hits / total) * 100) : 0;
+	return `${rate}% (${hits}/${total} queries since startup)`;
+}
@@ -0,0 +1,300 @@
+import ms from "ms";
+import { db } from "./db.js";
+import { getActiveIndexers, getTorznabEntry, Indexer } from "./indexers.js";
+import { Label, logger } from "./logger.js";
+import { wait } from "./utils.js";
+
+export enum RateLimitKind {
+	REQUEST = "request",
+	GRAB = "grab",
+}
+
+export enum RateLimitWindow {
+	MINUTE = "minute",
+	HOUR = "hour",
+	DAY = "day",
+}
+
+/**
+ * Config takes precedence over caps, headers only fill in the gaps
+ */
+enum RateLimitSource {
+	CONFIG = "config",
+	CAPS = "caps",
+	HEADER = "header",
+}
+
+/**
+ * Longer waits for a token are deferred to a later search or grab instead
+ */
+export const MAX_RATE_LIMIT_WAIT = ms("1 minute");
+
+const WINDOW_MS: Record<RateLimitWindow, number> = {
+	[RateLimitWindow.MINUTE]: ms("1 minute"),
+	[RateLimitWindow.HOUR]: ms("1 hour"),
+	[RateLimitWindow.DAY]: ms("1 day"),
+};
+
+interface RateLimit {
+	indexerId: number;
+	kind: RateLimitKind;
+	window: RateLimitWindow;
+	capacity: number;
+	tokens: number;
+	updatedAt: number;
+	source: RateLimitSource;
+}
+
+const allFields = {
+	indexerId: "indexer_id",
+	kind: "kind",
+	window: "window",
+	capacity: "capacity",
+	tokens: "tokens",
+	updatedAt: "updated_at",
+	source: "source",
+} as const;
+
+/**
+ * Buckets refill continuously, a full window restores the full capacity
+ */
+function refill(rateLimit: RateLimit, now: number): number {
+	const elapsed = Math.max(now - rateLimit.updatedAt, 0);
+	return Math.min(
+		rateLimit.capacity,
+		rateLimit.tokens +
+			(elapsed * rateLimit.capacity) / WINDOW_MS[rateLimit.window],
+	);
+}
+
+function msUntilToken(rateLimit: RateLimit, tokens: number): number {
+	if (tokens >= 1) return 0;
+	return Math.ceil(
+		((1 - tokens) * WINDOW_MS[rateLimit.window]) / rateLimit.capacity,
+	);
+}
+
+function getConfiguredRateLimits(
+	indexer: Indexer,
+): Omit<RateLimit, "tokens" | "updatedAt">[] {
+	const entry = getTorznabEntry(indexer.url);
+	const configured: [RateLimitKind, RateLimitWindow, number | undefined][] = [
+		[
+			RateLimitKind.REQUEST,
+			RateLimitWindow.MINUTE,
+			entry?.requestsPerMinute,
+		],
+		[RateLimitKind.REQUEST, RateLimitWindow.HOUR, entry?.requestsPerHour],
+		[RateLimitKind.REQUEST, RateLimitWindow.DAY, entry?.requestsPerDay],
+		[RateLimitKind.GRAB, RateLimitWindow.DAY, entry?.grabsPerDay],
+	];
+	return configured.flatMap(([kind, window, configCapacity]) => {
+		const capsCapacity =
+			window !== RateLimitWindow.DAY
+				? undefined
+				: kind === RateLimitKind.REQUEST
+					? indexer.limits?.apiMax
+					: indexer.limits?.grabMax;
+		const capacity = configCapacity ?? capsCapacity;
+		if (!capacity) return [];
+		const source =
+			configCapacity !== undefined
+				? RateLimitSource.CONFIG
+				: RateLimitSource.CAPS;
+		return [{ indexerId: indexer.id, kind, window, capacity, source }];
+	});
+}
+
+/**
+ * Sets the budgets of each indexer from config, falling back to its caps.
+ * Budgets learned from response headers are kept unless replaced.
+ */
+export async function syncRateLimits(): Promise<void> {
+	const now = Date.now();
+	const activeIndexers = await getActiveIndexers();
+	const existing: RateLimit[] =
+		await db("indexer_rate_limit").select(allFields);
+	await db.transaction(async (trx) => {
+		await trx("indexer_rate_limit")
+			.whereNotIn(
+				"indexer_id",
+				activeIndexers.map((indexer) => indexer.id),
+			)
+			.del();
+		for (const indexer of activeIndexers) {
+			const configured = getConfiguredRateLimits(indexer);
+			for (const rateLimit of existing) {
+				if (
+					rateLimit.indexerId !== indexer.id ||
+					rateLimit.source === RateLimitSource.HEADER ||
+					configured.some(
+						(c) =>
+							c.kind === rateLimit.kind &&
+							c.window === rateLimit.window,
+					)
+				) {
+					continue;
+				}
+				await trx("indexer_rate_limit")
+					.where({
+						indexer_id: rateLimit.indexerId,
+						kind: rateLimit.kind,
+						window: rateLimit.window,
+					})
+					.del();
+			}
+			for (const rateLimit of configured) {
+				const current = existing.find(
+					(r) =>
+						r.indexerId === indexer.id &&
+						r.kind === rateLimit.kind &&
+						r.window === rateLimit.window,
+				);
+				const tokens = current
+					? Math.min(refill(current, now), rateLimit.capacity)
+					: rateLimit.capacity;
+				await trx("indexer_rate_limit")
+					.insert({
+						indexer_id: indexer.id,
+						kind: rateLimit.kind,
+						window: rateLimit.window,
+						capacity: rateLimit.capacity,
+						tokens,
+						updated_at: now,
+						source: rateLimit.source,
+					})
+					.onConflict(["indexer_id", "kind", "window"])
+					.merge();
+			}
+		}
+	});
+}
+
+/**
+ * @return the ms until every budget of the indexer has a token, 0 if now
+ */
+export async function msUntilRateLimitToken(
+	indexerId: number,
+	kind: RateLimitKind,
+): Promise<number> {
+	const now = Date.now();
+	const rateLimits: RateLimit[] = await db("indexer_rate_limit")
+		.where({ indexer_id: indexerId, kind })
+		.select(allFields);
+	return Math.max(
+		0,
+		...rateLimits.map((r) => msUntilToken(r, refill(r, now))),
+	);
+}
+
+/**
+ * Takes a token from every budget of the indexer only if all have one
+ * @return 0 if taken, otherwise the ms until every budget has a token
+ */
+async function takeRateLimitToken(
+	indexerId: number,
+	kind: RateLimitKind,
+): Promise<number> {
+	return db.transaction(async (trx) => {
+		const now = Date.now();
+		const rateLimits: RateLimit[] = await trx("indexer_rate_limit")
+			.where({ indexer_id: indexerId, kind })
+			.select(allFields);
+		const refilled = rateLimits.map((r) => ({ r, tokens: refill(r, now) }));
+		const waitMs = Math.max(
+			0,
+			...refilled.map(({ r, tokens }) => msUntilToken(r, tokens)),
+		);
+		if (waitMs > 0) return waitMs;
+		for (const { r, tokens } of refilled) {
+			await trx("indexer_rate_limit")
+				.where({ indexer_id: indexerId, kind, window: r.window })
+				.update({ tokens: tokens - 1, updated_at: now });
+		}
+		return 0;
+	});
+}
+
+/**
+ * Waits for a token from every budget of the indexer, unless that would take
+ * longer than maxWaitMs
+ * @return 0 if a token was taken, otherwise when the budgets have a token
+ */
+export async function waitForRateLimitToken(
+	indexerId: number,
+	kind: RateLimitKind,
+	maxWaitMs: number,
+): Promise<number> {
+	const giveUpAt = Date.now() + maxWaitMs;
+	for (;;) {
+		const waitMs = await takeRateLimitToken(indexerId, kind);
+		if (waitMs === 0) return 0;
+		if (Date.now() + waitMs > giveUpAt) return Date.now() + waitMs;
+		await wait(waitMs);
+	}
+}
+
+/**
+ * Learns a request budget from X-RateLimit-Limit, X-RateLimit-Remaining, and
+ * X-RateLimit-Reset (seconds until reset or epoch seconds). The window is the
+ * shortest that fits the reset, an hour if there is none. Budgets from config
+ * or caps only have their tokens lowered to match.
+ */
+export async function updateRateLimitFromHeaders(
+	indexerId: number,
+	headers: Headers,
+): Promise<void> {
+	const getHeader = (name: string) =>
+		headers.get(`X-RateLimit-${name}`) ?? headers.get(`RateLimit-${name}`);
+	const limit = parseInt(getHeader("Limit") ?? "");
+	const remaining = parseInt(getHeader("Remaining") ?? "");
+	if (!(limit > 0) || !(remaining >= 0)) return;
+	const now = Date.now();
+	const resetSeconds = parseInt(getHeader("Reset") ?? "");
+	const resetMs = !(resetSeconds > 0)
+		? null
+		: resetSeconds * 1000 > WINDOW_MS[RateLimitWindow.DAY]
+			? resetSeconds * 1000 - now
+			: resetSeconds * 1000;
+	const window =
+		resetMs === null
+			? RateLimitWindow.HOUR
+			: Object.values(RateLimitWindow).find(
+					(w) => resetMs <= WINDOW_MS[w],
+				) ?? RateLimitWindow.DAY;
+
+	const existing: RateLimit | undefined = await db("indexer_rate_limit")
+		.where({ indexer_id: indexerId, kind: RateLimitKind.REQUEST, window })
+		.select(allFields)
+		.first();
+	if (existing && existing.source !== RateLimitSource.HEADER) {
+		const tokens = refill(existing, now);
+		if (remaining >= tokens) return;
+		await db("indexer_rate_limit")
+			.where({
+				indexer_id: indexerId,
+				kind: RateLimitKind.REQUEST,
+				window,
+			})
+			.update({ tokens: remaining, updated_at: now });
+		return;
+	}
+	if (!existing || existing.capacity !== limit) {
+		logger.verbose({
+			label: Label.TORZNAB,
+			message: `Indexer ${indexerId} reports a budget of ${limit} requests per ${window}, ${remaining} remaining`,
+		});
+	}
+	await db("indexer_rate_limit")
+		.insert({
+			indexer_id: indexerId,
+			kind: RateLimitKind.REQUEST,
+			window,
+			capacity: limit,
+			tokens: Math.min(remaining, limit),
+			updated_at: now,
+			source: RateLimitSource.HEADER,
+		})
+		.onConflict(["indexer_id", "kind", "window"])
+		.merge();
+}
@@ -0,0 +1,249 @@
+import chalk from "chalk";
+import ms from "ms";
+import { z } from "zod";
+import { isAnyMatchedDecision } from "./constants.js";
+import { db } from "./db.js";
+import { Label, logger } from "./logger.js";
+import { Candidate, checkNewCandidateMatch } from "./pipeline.js";
+import { SearcheeLabel } from "./searchee.js";
+import { filterSimilarNames } from "./torrent.js";
+import {
+	humanReadableDate,
+	humanReadableSize,
+	Mutex,
+	nMsAgo,
+	withMutex,
+} from "./utils.js";
+
+/**
+ * How long RSS and announce candidates without a local match are kept to be
+ * matched against torrents added later
+ */
+export const RECENT_CANDIDATE_RETENTION = ms("3 days");
+
+interface RecentCandidate extends Candidate {
+	label: SearcheeLabel;
+}
+
+/**
+ * A recent candidate without its link and cookie, which can carry credentials
+ */
+export interface RecentCandidateEntry {
+	guid: string;
+	name: string;
+	tracker: string;
+	size: number | null;
+	pubDate: number | null;
+	indexerId: number | null;
+	infoHash: string | null;
+	label: SearcheeLabel;
+	seenAt: number;
+}
+
+export interface RecentCandidatePage {
+	total: number;
+	limit: number;
+	offset: number;
+	candidates: RecentCandidateEntry[];
+}
+
+export const RECENT_CANDIDATE_QUERY_SCHEMA = z
+	.object({
+		tracker: z.string().min(1).optional(),
+		label: z.enum([Label.RSS, Label.ANNOUNCE]).optional(),
+		limit: z.coerce.number().int().min(1).max(1000).default(50),
+		offset: z.coerce.number().int().min(0).default(0),
+	})
+	.strict();
+
+export type RecentCandidateQuery = z.infer<
+	typeof RECENT_CANDIDATE_QUERY_SCHEMA
+>;
+
+const allFields = {
+	guid: "guid",
+	name: "name",
+	tracker: "tracker",
+	link: "link",
+	size: "size",
+	pubDate: "pub_date",
+	indexerId: "indexer_id",
+	infoHash: "info_hash",
+	cookie: "cookie",
+	label: "label",
+} as const;
+
+/**
+ * Keeps the first time the candidate was seen so rechecks don't extend it
+ */
+export async function rememberRecentCandidate(
+	candidate: Candidate,
+	label: SearcheeLabel,
+): Promise<void> {
+	await db("recent_candidate")
+		.insert({
+			guid: candidate.guid,
+			name: candidate.name,
+			tracker: candidate.tracker,
+			link: candidate.link,
+			size: candidate.size ?? null,
+			pub_date: candidate.pubDate ?? null,
+			indexer_id: candidate.indexerId ?? null,
+			info_hash: candidate.infoHash ?? null,
+			cookie: candidate.cookie ?? null,
+			label,
+			seen_at: Date.now(),
+		})
+		.onConflict(["guid", "tracker"])
+		.ignore();
+}
+
+export async function pruneRecentCandidates(): Promise<number> {
+	return db("recent_candidate")
+		.where("seen_at", "<", nMsAgo(RECENT_CANDIDATE_RETENTION))
+		.del();
+}
+
+/**
+ * @return the recent candidates, newest first
+ */
+export async function getRecentCandidates(): Promise<RecentCandidate[]> {
+	const rows = await db("recent_candidate")
+		.where("seen_at", ">=", nMsAgo(RECENT_CANDIDATE_RETENTION))
+		.orderBy("seen_at", "desc")
+		.select(allFields);
+	return rows.map((row) => ({
+		...row,
+		size: row.size ?? undefined,
+		pubDate: row.pubDate ?? undefined,
+		indexerId: row.indexerId ?? undefined,
+		infoHash: row.infoHash ?? undefined,
+		cookie: row.cookie ?? undefined,
+	}));
+}
+
+/**
+ * Queries the recent candidates that are still kept, newest first
+ */
+export async function queryRecentCandidates(
+	query: RecentCandidateQuery,
+): Promise<RecentCandidatePage> {
+	const { tracker, label } = query;
+	let filtered = db("recent_candidate").where(
+		"seen_at",
+		">=",
+		nMsAgo(RECENT_CANDIDATE_RETENTION),
+	);
+	if (tracker) filtered = filtered.whereLike("tracker", tracker);
+	if (label) filtered = filtered.where({ label });
+
+	const { total } = (await filtered
+		.clone()
+		.count({ total: "*" })
+		.first()) as { total: number };
+	const candidates: RecentCandidateEntry[] = await filtered
+		.clone()
+		.select({
+			guid: "guid",
+			name: "name",
+			tracker: "tracker",
+			size: "size",
+			pubDate: "pub_date",
+			indexerId: "indexer_id",
+			infoHash: "info_hash",
+			label: "label",
+			seenAt: "seen_at",
+		})
+		.orderBy([
+			{ column: "seen_at", order: "desc" },
+			{ column: "id", order: "desc" },
+		])
+		.limit(query.limit)
+		.offset(query.offset);
+
+	return { total, limit: query.limit, offset: query.offset, candidates };
+}
+
+/**
+ * Human readable summary of a page of recent candidates for the CLI
+ */
+export function formatRecentCandidates(page: RecentCandidatePage): string {
+	const { total, offset, candidates } = page;
+	if (!candidates.length) {
+		return total
+			? `No recent candidates at offset ${offset} (${total} total)`
+			: "No recent candidates found";
+	}
+	const lines = candidates.map((candidate) => {
+		const size =
+			candidate.size !== null
+				? ` (${humanReadableSize(candidate.size)})`
+				: "";
+		return `${humanReadableDate(candidate.seenAt)} ${chalk.bold(candidate.name)}${size} from ${candidate.tracker} by ${candidate.label}`;
+	});
+	lines.push(
+		`Showing ${offset + 1}-${offset + candidates.length} of ${total}`,
+	);
+	return lines.join("\n");
+}
+
+/**
+ * Checks the recent candidates similar to the searchees as if they were just
+ * seen, the ones that are decided are no longer kept
+ * @param searcheeTitles the titles of searchees that were just added
+ * @return the number of matches
+ */
+export async function matchRecentCandidates(
+	searcheeTitles: string[],
+): Promise<number> {
+	if (!searcheeTitles.length) return 0;
+	return withMutex(
+		Mutex.MATCH_RECENT_CANDIDATES,
+		{ useQueue: true },
+		async () => {
+			let numMatches = 0;
+			try {
+				const recentCandidates = await getRecentCandidates();
+				const similarNames = new Set(
+					filterSimilarNames(
+						recentCandidates.map((candidate) => candidate.name),
+						searcheeTitles,
+					),
+				);
+				const similar = recentCandidates.filter((candidate) =>
+					similarNames.has(candidate.name),
+				);
+				if (!similar.length) return 0;
+				logger.verbose({
+					label: Label.SEARCH,
+					message: `Checking ${similar.length} recent candidates against new searchees before searching indexers`,
+				});
+				for (const { label, ...candidate } of similar) {
+					const { decision } = await checkNewCandidateMatch(
+						candidate,
+						label,
+					);
+					if (!decision) continue;
+					if (isAnyMatchedDecision(decision)) numMatches++;
+					await db("recent_candidate")
+						.where({
+							guid: candidate.guid,
+							tracker: candidate.tracker,
+						})
+						.del();
+				}
+				logger.info({
+					label: Label.SEARCH,
+					message: `Found ${numMatches} cross seeds from ${similar.length} recent candidates`,
+				});
+			} catch (e) {
+				logger.error({
+					label: Label.SEARCH,
+					message: `Failed to check recent candidates: ${e.message}`,
+				});
+				logger.debug(e);
+			}
+			return numMatches;
+		},
+	);
+}
@@ -1,8 +1,34 @@
-import { Action, LinkType, MatchMode } from "./constants.js";
+import { Action, LinkType, MatchMode, MediaType } from "./constants.js";
+
+/**
+ * A torznab url with settings that override the global ones for its indexer
+ */
+export interface TorznabEntry {
+	url: string;
+	delay?: number;
+	searchTimeout?: number;
+	snatchTimeout?: number;
+	searchLimit?: number;
+	excludeRecentSearch?: number;
+	/**
+	 * Only search for these media types, in addition to the indexer's caps
+	 */
+	mediaTypes?: MediaType[];
+	requestsPerMinute?: number;
+	requestsPerHour?: number;
+	requestsPerDay?: number;
+	grabsPerDay?: number;
+	/**
+	 * Overrides the global proxy, null to connect directly
+	 */
+	proxy?: string | null;
+	rss: boolean;
+	search: boolean;
+}
 
 export interface RuntimeConfig {
 	delay: number;
-	torznab: string[];
+	torznab: TorznabEntry[];
 	useClientTorrents: boolean;
 	dataDirs: string[];
 	matchMode: MatchMode;
@@ -34,13 +60,23 @@ export interface RuntimeConfig {
 	host?: string;
 	searchCadence?: number;
 	rssCadence?: number;
+	searchCron?: string;
+	rssCron?: string;
+	injectCron?: string;
+	cleanupCron?: string;
+	quietHours?: string;
 	snatchTimeout?: number;
 	searchTimeout?: number;
 	searchLimit?: number;
+	queryCacheTtl?: number;
 	blockList: string[];
 	apiKey?: string;
 	sonarr: string[];
 	radarr: string[];
+	prowlarr: string | null;
+	prowlarrTags: string[];
+	prowlarrExcludeTags: string[];
+	proxy: string | null;
 }
 
 let runtimeConfig: RuntimeConfig;
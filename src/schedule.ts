@@ -0,0 +1,236 @@
+import ms from "ms";
+
+interface CronField {
+	name: string;
+	min: number;
+	max: number;
+	names?: string[];
+}
+
+const CRON_FIELDS: CronField[] = [
+	{ name: "minute", min: 0, max: 59 },
+	{ name: "hour", min: 0, max: 23 },
+	{ name: "day of month", min: 1, max: 31 },
+	{
+		name: "month",
+		min: 1,
+		max: 12,
+		names: [
+			"jan",
+			"feb",
+			"mar",
+			"apr",
+			"may",
+			"jun",
+			"jul",
+			"aug",
+			"sep",
+			"oct",
+			"nov",
+			"dec",
+		],
+	},
+	{
+		name: "day of week",
+		min: 0,
+		max: 7,
+		names: ["sun", "mon", "tue", "wed", "thu", "fri", "sat"],
+	},
+];
+
+const CRON_ALIASES: Record<string, string> = {
+	"@yearly": "0 0 1 1 *",
+	"@annually": "0 0 1 1 *",
+	"@monthly": "0 0 1 * *",
+	"@weekly": "0 0 * * 0",
+	"@daily": "0 0 * * *",
+	"@midnight": "0 0 * * *",
+	"@hourly": "0 * * * *",
+};
+
+/**
+ * How far ahead to look for the next run before giving up, e.g. "0 0 30 2 *"
+ */
+const MAX_CRON_LOOKAHEAD = ms("5 years");
+
+export interface CronSchedule {
+	minutes: Set<number>;
+	hours: Set<number>;
+	daysOfMonth: Set<number>;
+	months: Set<number>;
+	daysOfWeek: Set<number>;
+	/**
+	 * Like standard cron, if both day fields are restricted either can match
+	 */
+	anyDayOfMonth: boolean;
+	anyDayOfWeek: boolean;
+}
+
+function parseCronValue(value: string, field: CronField): number {
+	const nameIndex = field.names?.indexOf(value.toLowerCase()) ?? -1;
+	if (nameIndex >= 0) return nameIndex + (field.name === "month" ? 1 : 0);
+	const n = Number(value);
+	if (!/^\d+$/.test(value) || n < field.min || n > field.max) {
+		throw new Error(`Invalid ${field.name} "${value}" in cron expression`);
+	}
+	return n;
+}
+
+function parseCronField(expression: string, field: CronField): Set<number> {
+	const values = new Set<number>();
+	for (const part of expression.split(",")) {
+		const [range, stepStr, ...rest] = part.split("/");
+		const step = stepStr === undefined ? 1 : Number(stepStr);
+		if (rest.length || !Number.isInteger(step) || step < 1) {
+			throw new Error(
+				`Invalid ${field.name} "${part}" in cron expression`,
+			);
+		}
+		let start: number;
+		let end: number;
+		if (range === "*") {
+			start = field.min;
+			end = field.max;
+		} else {
+			const [startStr, endStr, ...extra] = range.split("-");
+			if (extra.length) {
+				throw new Error(
+					`Invalid ${field.name} "${part}" in cron expression`,
+				);
+			}
+			start = parseCronValue(startStr, field);
+			end =
+				endStr !== undefined
+					? parseCronValue(endStr, field)
+					: stepStr !== undefined
+						? field.max
+						: start;
+		}
+		if (start > end) {
+			throw new Error(
+				`Invalid ${field.name} "${part}" in cron expression`,
+			);
+		}
+		for (let i = start; i <= end; i += step) values.add(i);
+	}
+	return values;
+}
+
+/**
+ * Parses a standard 5 field cron expression (minute hour day-of-month month
+ * day-of-week) or one of the @daily style aliases.
+ * @throws Error if the expression is invalid
+ */
+export function parseCron(expression: string): CronSchedule {
+	const normalized = expression.trim().toLowerCase();
+	const fields = (CRON_ALIASES[normalized] ?? normalized).split(/\s+/);
+	if (fields.length !== CRON_FIELDS.length) {
+		throw new Error(
+			`Cron expression "${expression}" must have ${CRON_FIELDS.length} fields`,
+		);
+	}
+	const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+		(f, i) => parseCronField(f, CRON_FIELDS[i]),
+	);
+	if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+	return {
+		minutes,
+		hours,
+		daysOfMonth,
+		months,
+		daysOfWeek,
+		anyDayOfMonth: fields[2] === "*",
+		anyDayOfWeek: fields[4] === "*",
+	};
+}
+
+function matchesCronDay(schedule: CronSchedule, date: Date): boolean {
+	const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+	const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+	if (schedule.anyDayOfMonth) return dayOfWeek;
+	if (schedule.anyDayOfWeek) return dayOfMonth;
+	return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * Finds the next time strictly after `after` that matches the expression, in
+ * local time.
+ * @return the timestamp or null if the expression can never match
+ */
+export function nextCronRun(expression: string, after: number): number | null {
+	const schedule = parseCron(expression);
+	const date = new Date(after);
+	date.setSeconds(0, 0);
+	date.setMinutes(date.getMinutes() + 1);
+	while (date.getTime() <= after + MAX_CRON_LOOKAHEAD) {
+		if (!schedule.months.has(date.getMonth() + 1)) {
+			date.setMonth(date.getMonth() + 1, 1);
+			date.setHours(0, 0, 0, 0);
+		} else if (!matchesCronDay(schedule, date)) {
+			date.setDate(date.getDate() + 1);
+			date.setHours(0, 0, 0, 0);
+		} else if (!schedule.hours.has(date.getHours())) {
+			date.setHours(date.getHours() + 1, 0, 0, 0);
+		} else if (!schedule.minutes.has(date.getMinutes())) {
+			date.setMinutes(date.getMinutes() + 1, 0, 0);
+		} else {
+			return date.getTime();
+		}
+	}
+	return null;
+}
+
+/**
+ * @return the quiet hours as minutes since midnight
+ * @throws Error if not in the format "HH:MM-HH:MM"
+ */
+export function parseQuietHours(quietHours: string): {
+	start: number;
+	end: number;
+} {
+	const match = quietHours
+		.trim()
+		.match(/^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/);
+	if (!match) {
+		throw new Error(`Quiet hours "${quietHours}" must be HH:MM-HH:MM`);
+	}
+	const [startHour, startMinute, endHour, endMinute] = match
+		.slice(1)
+		.map(Number);
+	if (
+		startHour > 23 ||
+		endHour > 23 ||
+		startMinute > 59 ||
+		endMinute > 59 ||
+		(startHour === endHour && startMinute === endMinute)
+	) {
+		throw new Error(`Quiet hours "${quietHours}" is not a valid range`);
+	}
+	return {
+		start: startHour * 60 + startMinute,
+		end: endHour * 60 + endMinute,
+	};
+}
+
+/**
+ * Quiet hours are in local time and may wrap past midnight
+ * @return the ms until quiet hours end, 0 if not currently in quiet hours
+ */
+export function msUntilQuietHoursEnd(
+	quietHours: string | null | undefined,
+	now = Date.now(),
+): number {
+	if (!quietHours) return 0;
+	const { start, end } = parseQuietHours(quietHours);
+	const date = new Date(now);
+	const minuteOfDay = date.getHours() * 60 + date.getMinutes();
+	const isQuiet =
+		start < end
+			? minuteOfDay >= start && minuteOfDay < end
+			: minuteOfDay >= start || minuteOfDay < end;
+	if (!isQuiet) return 0;
+	const endDate = new Date(now);
+	endDate.setHours(Math.floor(end / 60), end % 60, 0, 0);
+	if (endDate.getTime() <= now) endDate.setDate(endDate.getDate() + 1);
+	return endDate.getTime() - now;
+}
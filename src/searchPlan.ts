@@ -0,0 +1,59 @@
+import { db } from "./db.js";
+
+/**
+ * The order of the unique queries of a bulk search pass and how far it got, so
+ * an interrupted or paused pass continues instead of starting over
+ */
+export interface SearchPlan {
+	queryKeys: string[];
+	/**
+	 * The index of the next query to search
+	 */
+	cursor: number;
+	startedAt: number;
+	updatedAt: number;
+}
+
+export async function getSearchPlan(): Promise<SearchPlan | null> {
+	const row = await db("search_plan")
+		.select({
+			queryKeys: "query_keys",
+			cursor: "cursor",
+			startedAt: "started_at",
+			updatedAt: "updated_at",
+		})
+		.first();
+	if (!row) return null;
+	return { ...row, queryKeys: JSON.parse(row.queryKeys) };
+}
+
+/**
+ * Replaces any existing plan, there is only one bulk search at a time
+ */
+export async function createSearchPlan(
+	queryKeys: string[],
+): Promise<SearchPlan> {
+	const now = Date.now();
+	const plan = { queryKeys, cursor: 0, startedAt: now, updatedAt: now };
+	await db.transaction(async (trx) => {
+		await trx("search_plan").del();
+		await trx("search_plan").insert({
+			query_keys: JSON.stringify(queryKeys),
+			cursor: plan.cursor,
+			started_at: plan.startedAt,
+			updated_at: plan.updatedAt,
+		});
+	});
+	return plan;
+}
+
+export async function updateSearchPlanCursor(cursor: number): Promise<void> {
+	await db("search_plan").update({ cursor, updated_at: Date.now() });
+}
+
+/**
+ * @return whether there was a plan to clear
+ */
+export async function clearSearchPlan(): Promise<boolean> {
+	return (await db("search_plan").del()) > 0;
+}
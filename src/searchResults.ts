@@ -0,0 +1,123 @@
+import xml2js from "xml2js";
+import { INFO_HASH_REGEX, UNKNOWN_TRACKER } from "./constants.js";
+import { CandidateWithIndexerId } from "./pipeline.js";
+
+interface TorznabResult {
+	guid: [string];
+	title: [string];
+	prowlarrindexer?: [{ _: string }];
+	jackettindexer?: [{ _: string }];
+	indexer?: [{ _: string }];
+	link?: [string];
+	size: [string];
+	pubDate: [string];
+	"torznab:attr"?: { $: { name: string; value: string } }[];
+}
+
+type TorznabResults = {
+	rss?: { channel?: [] | [{ item?: TorznabResult[] }] };
+	error?: { $: { code: string; description: string } };
+};
+
+function normalizeInfoHash(infoHash: string | undefined): string | undefined {
+	return infoHash && INFO_HASH_REGEX.test(infoHash)
+		? infoHash.toLowerCase()
+		: undefined;
+}
+
+function getBodySample(body: string): string {
+	const sample = body.trim().slice(0, 100);
+	return body.trim().length > 100 ? `${sample}...` : sample;
+}
+
+/**
+ * @throws unless the body looks like Torznab XML
+ */
+function checkFormat(contentType: string, body: string): void {
+	const start = body.trimStart().slice(0, 100).toLowerCase();
+	if (
+		contentType.includes("html") ||
+		start.startsWith("<!doctype html") ||
+		start.startsWith("<html")
+	) {
+		throw new Error(
+			`responded with an HTML page instead of search results, check that nothing like a login page or proxy is in front of the indexer: ${getBodySample(body)}`,
+		);
+	}
+	if (
+		contentType.includes("json") ||
+		start.startsWith("{") ||
+		start.startsWith("[")
+	) {
+		throw new Error(
+			`responded with JSON instead of Torznab XML, check that the url is the Torznab feed of the indexer: ${getBodySample(body)}`,
+		);
+	}
+	if (!contentType.includes("xml") && !start.startsWith("<")) {
+		throw new Error(
+			`responded with ${contentType || "no content type"} instead of search results: ${getBodySample(body)}`,
+		);
+	}
+}
+
+function getTorznabAttr(item: TorznabResult, name: string) {
+	return item["torznab:attr"]?.find((attr) => attr.$?.name === name)?.$.value;
+}
+
+function parseTorznabResults(
+	xml: TorznabResults,
+	indexerId: number,
+): CandidateWithIndexerId[] {
+	if (xml?.error) {
+		throw new Error(
+			`responded with error ${xml.error.$.code}: ${xml.error.$.description}`,
+		);
+	}
+	const items = xml?.rss?.channel?.[0]?.item;
+	if (!items || !Array.isArray(items)) {
+		return [];
+	}
+
+	// a result without a link can't be snatched
+	return items
+		.filter((item) => item.link?.[0])
+		.map((item) => ({
+			guid: item.guid[0],
+			infoHash: normalizeInfoHash(getTorznabAttr(item, "infohash")),
+			name: item.title[0],
+			tracker: (
+				item?.prowlarrindexer?.[0]?._ ??
+				item?.jackettindexer?.[0]?._ ??
+				item?.indexer?.[0]?._ ??
+				UNKNOWN_TRACKER
+			).trim(),
+			link: item.link![0],
+			size: Number(item.size[0]),
+			pubDate: new Date(item.pubDate[0]).getTime(),
+			indexerId,
+		}));
+}
+
+/**
+ * Parses the Torznab XML search results of an indexer
+ * @throws if the body isn't Torznab XML or the indexer responded with an error
+ */
+export async function parseSearchResponse(
+	response: Response,
+	indexerId: number,
+): Promise<CandidateWithIndexerId[]> {
+	const body = await response.text();
+	checkFormat(
+		response.headers.get("Content-Type")?.toLowerCase() ?? "",
+		body,
+	);
+	let parsed: TorznabResults;
+	try {
+		parsed = await xml2js.parseStringPromise(body);
+	} catch (e) {
+		throw new Error(
+			`responded with unparseable XML (${e.message}): ${getBodySample(body)}`,
+		);
+	}
+	return parseTorznabResults(parsed, indexerId);
+}
@@ -1,27 +1,77 @@
 import chalk from "chalk";
 import { existsSync } from "fs";
 import http, { IncomingMessage, ServerResponse } from "http";
-import { parse as qsParse } from "querystring";
+import ms from "ms";
+import {
+	ParsedUrlQuery,
+	parse as qsParse,
+	stringify as qsStringify,
+} from "querystring";
 import { inspect } from "util";
 import { z } from "zod";
-import { checkApiKey } from "./auth.js";
+import { ApiKeyScope, getApiKeyScopes } from "./auth.js";
+import { getClients } from "./clients/TorrentClient.js";
 import {
 	ActionResult,
 	Decision,
 	DecisionAnyMatch,
 	InjectionResult,
+	PROGRAM_VERSION,
 	SaveResult,
 } from "./constants.js";
-import { checkJobs, getJobLastRun, getJobs, JobName } from "./jobs.js";
+import { db } from "./db.js";
+import { DECISION_QUERY_SCHEMA, queryDecisions } from "./decisionHistory.js";
+import { CrossSeedError } from "./errors.js";
+import { EventType, subscribeToEvents } from "./events.js";
+import {
+	clearIndexerFailures,
+	getAllIndexers,
+	getIndexerById,
+	Indexer,
+	setIndexerDisabled,
+} from "./indexers.js";
+import { injectTorrentFile } from "./inject.js";
+import { JOB_RUN_QUERY_SCHEMA, queryJobRuns } from "./jobRuns.js";
+import {
+	CANCELLABLE_JOBS,
+	checkJobs,
+	getJobLastRun,
+	getJobs,
+	JobControl,
+	JobName,
+	QUIET_HOURS_JOBS,
+} from "./jobs.js";
 import { Label, logger } from "./logger.js";
+import { apiRequests, renderMetrics } from "./metrics.js";
 import {
 	Candidate,
 	checkNewCandidateMatch,
 	searchForLocalTorrentByCriteria,
 } from "./pipeline.js";
+import {
+	queryRecentCandidates,
+	RECENT_CANDIDATE_QUERY_SCHEMA,
+} from "./recentCandidates.js";
+import { msUntilQuietHoursEnd } from "./schedule.js";
+import { clearSearchPlan, getSearchPlan } from "./searchPlan.js";
+import { reloadConfig } from "./startup.js";
+import { getStats, STATS_QUERY_SCHEMA } from "./stats.js";
 import { indexTorrentsAndDataDirs } from "./torrent.js";
-import { formatAsList, humanReadableDate, sanitizeInfoHash } from "./utils.js";
+import { updateCapsForIndexer } from "./torznab.js";
+import {
+	formatAsList,
+	humanReadableDate,
+	mapAsync,
+	sanitizeInfoHash,
+} from "./utils.js";
 import { getRuntimeConfig, RuntimeConfig } from "./runtimeConfig.js";
+import {
+	createWebhookJob,
+	finishWebhookJob,
+	getWebhookJob,
+	startWebhookJob,
+	WebhookJobState,
+} from "./webhookJobs.js";
 
 const ANNOUNCE_SCHEMA = z
 	.object({
@@ -42,6 +92,12 @@ const ANNOUNCE_SCHEMA = z
 	})
 	.strict()
 	.required()
+	.extend({
+		dryRun: z
+			.boolean()
+			.or(z.string().transform((v) => v === "true"))
+			.optional(),
+	})
 	.refine((data) => data.guid === data.link);
 
 const WEBHOOK_SCHEMA = z
@@ -66,6 +122,7 @@ const WEBHOOK_SCHEMA = z
 		includeNonVideos: z
 			.boolean()
 			.or(z.string().transform((v) => v === "true")),
+		dryRun: z.boolean().or(z.string().transform((v) => v === "true")),
 	})
 	.strict()
 	.partial()
@@ -85,18 +142,58 @@ const JOB_SCHEMA = z
 	.partial()
 	.refine((data) => Object.values(JobName).includes(data.name as JobName));
 
-function getData(req: IncomingMessage): Promise<string> {
+const JOB_CONTROL_SCHEMA = z.object({ name: z.nativeEnum(JobName) }).strict();
+
+const INJECT_SCHEMA = z
+	.object({
+		torrent: z
+			.string()
+			.min(1)
+			.transform((torrent) => Buffer.from(torrent, "base64")),
+		infoHash: z.string().length(40).optional(),
+		path: z.string().min(1).optional(),
+	})
+	.strict()
+	.refine((data) => !(data.infoHash && data.path));
+
+function getBody(req: IncomingMessage): Promise<Buffer> {
 	return new Promise((resolve) => {
-		const chunks: string[] = [];
+		const chunks: Buffer[] = [];
 		req.on("data", (chunk) => {
-			chunks.push(chunk.toString());
+			chunks.push(chunk);
 		});
 		req.on("end", async () => {
-			resolve(chunks.join(""));
+			resolve(Buffer.concat(chunks));
 		});
 	});
 }
 
+async function getData(req: IncomingMessage): Promise<string> {
+	return (await getBody(req)).toString();
+}
+
+/**
+ * Converts a multipart/form-data body to the same shape as a urlencoded body,
+ * with any uploaded files encoded as base64
+ */
+async function parseMultipartData(
+	req: IncomingMessage,
+	body: Buffer,
+): Promise<Record<string, string>> {
+	const formData = await new Response(body, {
+		headers: { "Content-Type": req.headers["content-type"]! },
+	}).formData();
+	const parsed: Record<string, string> = {};
+	for (const [key, value] of formData.entries()) {
+		parsed[key] =
+			typeof value === "string"
+				? value
+				: Buffer.from(await value.arrayBuffer()).toString("base64");
+	}
+	if (parsed.infoHash) parsed.infoHash = parsed.infoHash.toLowerCase();
+	return parsed;
+}
+
 function parseData(data: string) {
 	let parsed;
 	try {
@@ -127,12 +224,13 @@ function parseData(data: string) {
 async function authorize(
 	req: IncomingMessage,
 	res: ServerResponse,
+	scope: ApiKeyScope,
 ): Promise<boolean> {
 	const url = new URL(req.url!, `http://${req.headers.host}`);
 	const apiKey =
 		(req.headers["x-api-key"] as string) ?? url.searchParams.get("apikey");
-	const isAuthorized = await checkApiKey(apiKey);
-	if (!isAuthorized) {
+	const scopes = await getApiKeyScopes(apiKey);
+	if (!scopes) {
 		const ipAddress =
 			(req.headers["x-forwarded-for"] as string)?.split(",").shift() ||
 			req.socket?.remoteAddress;
@@ -144,8 +242,16 @@ async function authorize(
 		res.end(
 			"Specify the API key in an X-Api-Key header or an apikey query param.",
 		);
+		return false;
 	}
-	return isAuthorized;
+	if (!scopes.includes(scope)) {
+		const message = `API key is missing the ${scope} scope required for ${url.pathname}`;
+		logger.error({ label: Label.SERVER, message });
+		res.writeHead(403, "Forbidden");
+		res.end(message);
+		return false;
+	}
+	return true;
 }
 
 /**
@@ -178,8 +284,14 @@ async function search(
 		res.end(message);
 		return;
 	}
-	res.writeHead(204);
-	res.end();
+	const job = createWebhookJob(
+		{ infoHash: data.infoHash, path: data.path },
+		{ dryRun: data.dryRun ?? false },
+	);
+	if (!job.dryRun) {
+		res.writeHead(202, { "Content-Type": "application/json" });
+		res.end(JSON.stringify({ id: job.id }));
+	}
 
 	const criteriaStr = data.infoHash
 		? inspect(data).replace(data.infoHash, sanitizeInfoHash(data.infoHash))
@@ -202,16 +314,19 @@ async function search(
 
 	try {
 		const injectJob = getJobs().find((job) => job.name === JobName.INJECT);
-		if (injectJob) {
+		if (injectJob && !job.dryRun) {
 			injectJob.runAheadOfSchedule = true;
 			void checkJobs({ isFirstRun: false, useQueue: true });
 		}
 		await indexTorrentsAndDataDirs();
+		startWebhookJob(job);
 		let numFound: number | null = null;
 		if (data) {
 			numFound = await searchForLocalTorrentByCriteria(data, {
 				configOverride,
 				ignoreCrossSeeds: data.ignoreCrossSeeds ?? true,
+				searchReports: job.searchees,
+				dryRun: job.dryRun,
 			});
 		}
 
@@ -221,13 +336,41 @@ async function search(
 				message: `Found ${numFound} torrents for ${criteriaStr}`,
 			});
 		}
+		finishWebhookJob(job, { totalFound: numFound });
 	} catch (e) {
+		finishWebhookJob(job, { error: e.message });
 		logger.error({
 			label: Label.WEBHOOK,
 			message: e.message,
 		});
 		logger.debug(e);
 	}
+	if (job.dryRun) {
+		res.writeHead(job.state === WebhookJobState.FAILED ? 500 : 200, {
+			"Content-Type": "application/json",
+		});
+		res.end(JSON.stringify(job));
+	}
+}
+
+/**
+ * Report the progress and results of a search triggered by the webhook
+ */
+async function webhookJobStatus(
+	req: IncomingMessage,
+	res: ServerResponse,
+	id: string,
+): Promise<void> {
+	const job = getWebhookJob(id);
+	if (!job) {
+		const message = `Webhook job ${id} not found, it may have expired`;
+		logger.error({ label: Label.WEBHOOK, message });
+		res.writeHead(404);
+		res.end(message);
+		return;
+	}
+	res.writeHead(200, { "Content-Type": "application/json" });
+	res.end(JSON.stringify(job));
 }
 
 function determineResponse(result: {
@@ -304,7 +447,7 @@ async function announce(
 		message: `Received announce from ${data.tracker}: ${data.name}`,
 	});
 
-	const candidate = data as Candidate;
+	const { dryRun, ...candidate }: Candidate & { dryRun?: boolean } = data;
 	const candidateLog = `${chalk.bold.white(candidate.name)} from ${candidate.tracker}`;
 	try {
 		if (!useClientTorrents && !torrentDir && !dataDirs.length) {
@@ -313,7 +456,24 @@ async function announce(
 			);
 		}
 		await indexTorrentsAndDataDirs();
-		const result = await checkNewCandidateMatch(candidate, Label.ANNOUNCE);
+		const result = await checkNewCandidateMatch(candidate, Label.ANNOUNCE, {
+			dryRun,
+		});
+		if (dryRun) {
+			logger.info({
+				label: Label.ANNOUNCE,
+				message: `Dry run ${candidateLog}: ${result.decision ?? "no match"}`,
+			});
+			res.writeHead(200, { "Content-Type": "application/json" });
+			res.end(
+				JSON.stringify({
+					dryRun,
+					decision: result.decision,
+					searchees: result.considered,
+				}),
+			);
+			return;
+		}
 		if (!result.decision) {
 			res.writeHead(204);
 			res.end();
@@ -393,9 +553,28 @@ async function runJob(
 		return;
 	}
 
+	if (job.isPaused) {
+		const message = `${job.name}: paused, resume it instead`;
+		logger.error({ label: Label.SCHEDULER, message });
+		res.writeHead(409);
+		res.end(message);
+		return;
+	}
+
+	const quietHoursRemaining = msUntilQuietHoursEnd(
+		getRuntimeConfig().quietHours,
+	);
+	if (quietHoursRemaining && QUIET_HOURS_JOBS.includes(job.name)) {
+		const message = `${job.name}: unable to run during quiet hours, they end at ${humanReadableDate(Date.now() + quietHoursRemaining)}`;
+		logger.error({ label: Label.SCHEDULER, message });
+		res.writeHead(409);
+		res.end(message);
+		return;
+	}
+
 	const lastRun = (await getJobLastRun(job.name)) ?? 0;
 	if (Date.now() < lastRun) {
-		const message = `${job.name}: not eligible to run ahead of schedule, next scheduled run is at ${humanReadableDate(lastRun + job.cadence)} (triggering an early run is allowed after ${humanReadableDate(lastRun)})`;
+		const message = `${job.name}: not eligible to run ahead of schedule, next scheduled run is at ${humanReadableDate(job.getNextRun(lastRun))} (triggering an early run is allowed after ${humanReadableDate(lastRun)})`;
 		logger.error({ label: Label.SCHEDULER, message });
 		res.writeHead(409);
 		res.end(message);
@@ -403,7 +582,10 @@ async function runJob(
 	}
 
 	job.runAheadOfSchedule = true;
-	if (job.name === JobName.SEARCH || job.name === JobName.RSS) {
+	if (
+		!job.cron &&
+		(job.name === JobName.SEARCH || job.name === JobName.RSS)
+	) {
 		job.delayNextRun = true;
 	}
 	job.configOverride = {
@@ -418,16 +600,462 @@ async function runJob(
 }
 
 /**
- * current: sends "200 OK"
- * future: respond with current state and job status details via API
+ * Cancel or pause a running job, or resume a paused job
+ */
+async function controlJob(
+	req: IncomingMessage,
+	res: ServerResponse,
+	control: JobControl | "resume",
+): Promise<void> {
+	const dataStr = await getData(req);
+	let data;
+	try {
+		data = JOB_CONTROL_SCHEMA.parse(parseData(dataStr));
+	} catch {
+		const message = `Job name must be one of ${formatAsList([...CANCELLABLE_JOBS], { sort: true, style: "narrow", type: "unit" })} - received: ${dataStr}`;
+		logger.error({ label: Label.SERVER, message });
+		res.writeHead(400);
+		res.end(message);
+		return;
+	}
+
+	logger.info({
+		label: Label.SERVER,
+		message: `Received ${control} job request: ${inspect(data)}`,
+	});
+
+	const job = getJobs().find((j) => j.name === data.name);
+	if (!job) {
+		const message = `${data.name}: unable to ${control}, disabled in config`;
+		logger.error({ label: Label.SCHEDULER, message });
+		res.writeHead(404);
+		res.end(message);
+		return;
+	}
+
+	let message: string | null = null;
+	if (!CANCELLABLE_JOBS.includes(job.name)) {
+		message = `${job.name}: unable to ${control}, only ${formatAsList([...CANCELLABLE_JOBS], { sort: true })} can be controlled`;
+	} else if (control === "resume") {
+		if (!job.isPaused) message = `${job.name}: not paused`;
+	} else if (job.isActive) {
+		if (job.abortController?.signal.aborted) {
+			message = `${job.name}: already stopping`;
+		}
+	} else if (control === JobControl.CANCEL && job.isPaused) {
+		// a paused search is idle, cancelling it discards where it stopped
+		job.isPaused = false;
+		if (job.name === JobName.SEARCH) await clearSearchPlan();
+		logger.info({
+			label: Label.SCHEDULER,
+			message: `${job.name}: cancelled while paused`,
+		});
+		res.writeHead(200);
+		res.end(`${job.name}: cancelled`);
+		return;
+	} else {
+		message = `${job.name}: not running`;
+	}
+	if (message) {
+		logger.error({ label: Label.SCHEDULER, message });
+		res.writeHead(409);
+		res.end(message);
+		return;
+	}
+
+	if (control === "resume") {
+		job.isPaused = false;
+		job.runAheadOfSchedule = true;
+		void checkJobs({ isFirstRun: false, useQueue: true });
+		logger.info({
+			label: Label.SCHEDULER,
+			message: `${job.name}: resumed`,
+		});
+		res.writeHead(200);
+		res.end(`${job.name}: resumed`);
+		return;
+	}
+	job.stop(control);
+	const verb = control === JobControl.PAUSE ? "pausing" : "cancelling";
+	logger.info({ label: Label.SCHEDULER, message: `${job.name}: ${verb}` });
+	res.writeHead(200);
+	res.end(`${job.name}: ${verb}`);
+}
+
+/**
+ * Inject an uploaded .torrent file, optionally into a specific searchee
+ */
+async function inject(
+	req: IncomingMessage,
+	res: ServerResponse,
+): Promise<void> {
+	const body = await getBody(req);
+	let data;
+	try {
+		data = req.headers["content-type"]?.startsWith("multipart/form-data")
+			? await parseMultipartData(req, body)
+			: parseData(body.toString());
+	} catch (e) {
+		const message = `Unable to parse request body: ${e.message}`;
+		logger.error({ label: Label.SERVER, message });
+		res.writeHead(400);
+		res.end(message);
+		return;
+	}
+
+	const parsed = INJECT_SCHEMA.safeParse(data);
+	if (!parsed.success) {
+		const message =
+			"A torrent (base64 or multipart file) is required, optionally with one of infoHash or path";
+		logger.error({ label: Label.SERVER, message });
+		res.writeHead(400);
+		res.end(message);
+		return;
+	}
+	const { torrent, infoHash, path } = parsed.data;
+	const targetLog = infoHash
+		? ` for ${sanitizeInfoHash(infoHash)}`
+		: path
+			? ` for ${path}`
+			: "";
+	logger.info({
+		label: Label.SERVER,
+		message: `Received torrent to inject${targetLog}`,
+	});
+
+	const result = await injectTorrentFile(torrent, { infoHash, path });
+	if (result.isErr()) {
+		const error = result.unwrapErr();
+		const [status, message] = {
+			INVALID_TORRENT: [400, "Unable to parse the torrent"],
+			SEARCHEE_NOT_FOUND: [404, `No searchee found${targetLog}`],
+			ACTION_NOT_INJECT: [409, "Injection requires action: inject"],
+		}[error] as [number, string];
+		logger.error({ label: Label.SERVER, message });
+		res.writeHead(status);
+		res.end(message);
+		return;
+	}
+	res.writeHead(200, { "Content-Type": "application/json" });
+	res.end(JSON.stringify(result.unwrap()));
+}
+
+function withoutApikey(indexer: Indexer): Omit<Indexer, "apikey"> {
+	const copy: Partial<Indexer> = { ...indexer };
+	delete copy.apikey;
+	return copy as Omit<Indexer, "apikey">;
+}
+
+/**
+ * List all indexers with their status, caps, and search history
+ */
+async function indexers(
+	req: IncomingMessage,
+	res: ServerResponse,
+): Promise<void> {
+	const searchTimestamps = await db("timestamp")
+		.groupBy("indexer_id")
+		.select({
+			indexerId: "indexer_id",
+			firstSearched: db.raw("min(first_searched)"),
+			lastSearched: db.raw("max(last_searched)"),
+			searchees: db.raw("count(*)"),
+		});
+	const body = (await getAllIndexers()).map((indexer) => ({
+		...withoutApikey(indexer),
+		searchHistory: searchTimestamps.find(
+			({ indexerId }) => indexerId === indexer.id,
+		) ?? { firstSearched: null, lastSearched: null, searchees: 0 },
+	}));
+	res.writeHead(200, { "Content-Type": "application/json" });
+	res.end(JSON.stringify(body));
+}
+
+/**
+ * Manage a single indexer: clear-failures, refresh-caps, enable, or disable
+ */
+async function manageIndexer(
+	req: IncomingMessage,
+	res: ServerResponse,
+	indexerId: number,
+	action: string,
+): Promise<void> {
+	const indexer = await getIndexerById(indexerId);
+	if (!indexer) {
+		const message = `Indexer ${indexerId} not found`;
+		logger.error({ label: Label.SERVER, message });
+		res.writeHead(404);
+		res.end(message);
+		return;
+	}
+	const indexerLog = indexer.name ?? indexer.url;
+	switch (action) {
+		case "clear-failures":
+			await clearIndexerFailures(indexer.id);
+			break;
+		case "refresh-caps":
+			if (!indexer.active) {
+				const message = `${indexerLog}: unable to refresh caps, not in torznab config`;
+				logger.error({ label: Label.SERVER, message });
+				res.writeHead(409);
+				res.end(message);
+				return;
+			}
+			try {
+				await updateCapsForIndexer(indexer);
+			} catch (e) {
+				const message = `${indexerLog}: failed to refresh caps: ${e.message}`;
+				res.writeHead(502);
+				res.end(message);
+				return;
+			}
+			break;
+		case "enable":
+		case "disable":
+			await setIndexerDisabled(indexer.id, action === "disable");
+			break;
+	}
+	logger.info({
+		label: Label.SERVER,
+		message: `${indexerLog}: ${action} complete`,
+	});
+	res.writeHead(200, { "Content-Type": "application/json" });
+	res.end(JSON.stringify(withoutApikey((await getIndexerById(indexer.id))!)));
+}
+
+/**
+ * Report the current state of the daemon: jobs, indexers, and clients
  * uses: potential usage of this in dashbrr
  */
 async function status(
 	req: IncomingMessage,
 	res: ServerResponse,
 ): Promise<void> {
+	const now = Date.now();
+	const jobs = await mapAsync(getJobs(), async (job) => {
+		const lastRun = (await getJobLastRun(job.name)) ?? null;
+		return {
+			name: job.name,
+			isActive: job.isActive,
+			isPaused: job.isPaused,
+			cadence: job.cadence,
+			cron: job.cron,
+			lastRun,
+			nextRun: Math.max(job.getNextRun(lastRun), now),
+		};
+	});
+	const searchPlan = await getSearchPlan();
+	const indexers = (await getAllIndexers()).map(withoutApikey);
+	const clients = await mapAsync(getClients(), async (client) => {
+		let error: string | null = null;
+		try {
+			await client.checkConnection();
+		} catch (e) {
+			error = e.message;
+		}
+		return {
+			clientHost: client.clientHost,
+			clientType: client.clientType,
+			readonly: client.readonly,
+			reachable: error === null,
+			error,
+		};
+	});
+	res.writeHead(200, { "Content-Type": "application/json" });
+	res.end(
+		JSON.stringify({
+			version: PROGRAM_VERSION,
+			uptime: Math.round(process.uptime() * 1000),
+			jobs,
+			searchProgress: searchPlan && {
+				startedAt: searchPlan.startedAt,
+				updatedAt: searchPlan.updatedAt,
+				query: searchPlan.cursor + 1,
+				totalQueries: searchPlan.queryKeys.length,
+			},
+			indexers,
+			clients,
+		}),
+	);
+}
+
+/**
+ * The params of the querystring for the strict query schemas, without the
+ * apikey that authorize already checked
+ */
+export function getQueryParams(url: string): {
+	queryStr: string;
+	params: ParsedUrlQuery;
+} {
+	const params = qsParse(url.split("?")[1] ?? "");
+	delete params.apikey;
+	return { queryStr: qsStringify(params), params };
+}
+
+/**
+ * Query past decisions, filtered by the querystring
+ */
+async function decisions(
+	req: IncomingMessage,
+	res: ServerResponse,
+): Promise<void> {
+	const { queryStr, params } = getQueryParams(req.url!);
+	const parsed = DECISION_QUERY_SCHEMA.safeParse(params);
+	if (!parsed.success) {
+		const issues = parsed.error.issues.map(
+			(issue) => `${issue.path.join(".")}: ${issue.message}`,
+		);
+		const message = `Invalid decision query "${queryStr}": ${issues.join("; ")}`;
+		logger.error({ label: Label.SERVER, message });
+		res.writeHead(400);
+		res.end(message);
+		return;
+	}
+	const page = await queryDecisions(parsed.data);
+	res.writeHead(200, { "Content-Type": "application/json" });
+	res.end(JSON.stringify(page));
+}
+
+/**
+ * Stream events as they happen with Server-Sent Events
+ * Optionally filtered by a comma separated list of types: ?types=decision,action
+ */
+async function events(
+	req: IncomingMessage,
+	res: ServerResponse,
+): Promise<void> {
+	const typesParam = qsParse(req.url!.split("?")[1] ?? "").types;
+	const types = typesParam
+		? new Set([typesParam].flat().flatMap((t) => t.split(",")))
+		: null;
+	const validTypes: string[] = Object.values(EventType);
+	const invalidTypes = Array.from(types ?? []).filter(
+		(t) => !validTypes.includes(t),
+	);
+	if (invalidTypes.length) {
+		const message = `Event types must be one of ${formatAsList(validTypes, { sort: true, style: "narrow", type: "unit" })} - received: ${invalidTypes.join(", ")}`;
+		logger.error({ label: Label.SERVER, message });
+		res.writeHead(400);
+		res.end(message);
+		return;
+	}
+
+	res.writeHead(200, {
+		"Content-Type": "text/event-stream",
+		"Cache-Control": "no-cache",
+		Connection: "keep-alive",
+	});
+	res.write(": connected\n\n");
+	const unsubscribe = subscribeToEvents((event) => {
+		if (types && !types.has(event.type)) return;
+		res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+	});
+	const heartbeat = setInterval(
+		() => res.write(": heartbeat\n\n"),
+		ms("30 seconds"),
+	);
+	req.on("close", () => {
+		clearInterval(heartbeat);
+		unsubscribe();
+	});
+}
+
+/**
+ * Query the job run history, filtered by the querystring
+ */
+async function jobRuns(
+	req: IncomingMessage,
+	res: ServerResponse,
+): Promise<void> {
+	const { queryStr, params } = getQueryParams(req.url!);
+	const parsed = JOB_RUN_QUERY_SCHEMA.safeParse(params);
+	if (!parsed.success) {
+		const issues = parsed.error.issues.map(
+			(issue) => `${issue.path.join(".")}: ${issue.message}`,
+		);
+		const message = `Invalid job run query "${queryStr}": ${issues.join("; ")}`;
+		logger.error({ label: Label.SERVER, message });
+		res.writeHead(400);
+		res.end(message);
+		return;
+	}
+	res.writeHead(200, { "Content-Type": "application/json" });
+	res.end(JSON.stringify(await queryJobRuns(parsed.data)));
+}
+
+/**
+ * Query the recent RSS and announce candidates that are kept to be matched
+ * against torrents added later, filtered by the querystring
+ */
+async function recentCandidates(
+	req: IncomingMessage,
+	res: ServerResponse,
+): Promise<void> {
+	const { queryStr, params } = getQueryParams(req.url!);
+	const parsed = RECENT_CANDIDATE_QUERY_SCHEMA.safeParse(params);
+	if (!parsed.success) {
+		const issues = parsed.error.issues.map(
+			(issue) => `${issue.path.join(".")}: ${issue.message}`,
+		);
+		const message = `Invalid recent candidate query "${queryStr}": ${issues.join("; ")}`;
+		logger.error({ label: Label.SERVER, message });
+		res.writeHead(400);
+		res.end(message);
+		return;
+	}
+	res.writeHead(200, { "Content-Type": "application/json" });
+	res.end(JSON.stringify(await queryRecentCandidates(parsed.data)));
+}
+
+/**
+ * Per tracker stats, filtered by the querystring
+ */
+async function stats(req: IncomingMessage, res: ServerResponse): Promise<void> {
+	const { queryStr, params } = getQueryParams(req.url!);
+	const parsed = STATS_QUERY_SCHEMA.safeParse(params);
+	if (!parsed.success) {
+		const issues = parsed.error.issues.map(
+			(issue) => `${issue.path.join(".")}: ${issue.message}`,
+		);
+		const message = `Invalid stats query "${queryStr}": ${issues.join("; ")}`;
+		logger.error({ label: Label.SERVER, message });
+		res.writeHead(400);
+		res.end(message);
+		return;
+	}
+	res.writeHead(200, { "Content-Type": "application/json" });
+	res.end(JSON.stringify(await getStats(parsed.data)));
+}
+
+/**
+ * Reload the config file, keeping the previous config if the new one is invalid
+ */
+async function configReload(
+	req: IncomingMessage,
+	res: ServerResponse,
+): Promise<void> {
+	try {
+		await reloadConfig();
+	} catch (e) {
+		const message = `Failed to reload configuration: ${e.message}`;
+		logger.error({ label: Label.SERVER, message });
+		res.writeHead(e instanceof CrossSeedError ? 400 : 500);
+		res.end(message);
+		return;
+	}
 	res.writeHead(200);
-	res.end("OK");
+	res.end("Configuration reloaded");
+}
+
+/**
+ * Prometheus scrape endpoint
+ */
+async function metrics(
+	req: IncomingMessage,
+	res: ServerResponse,
+): Promise<void> {
+	res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4" });
+	res.end(renderMetrics());
 }
 
 /**
@@ -453,27 +1081,104 @@ async function handleRequest(
 	};
 
 	const endpoint = req.url!.split("?")[0];
+	let metricsEndpoint = endpoint;
+	res.on("finish", () => {
+		apiRequests.inc({
+			endpoint: metricsEndpoint,
+			status: res.statusCode,
+		});
+	});
+	const webhookJobId = endpoint.match(/^\/api\/webhook\/([\w-]+)$/)?.[1];
+	if (webhookJobId) {
+		metricsEndpoint = "/api/webhook/:id";
+		if (!checkMethod("GET", endpoint)) return;
+		if (!(await authorize(req, res, ApiKeyScope.WEBHOOK))) return;
+		return webhookJobStatus(req, res, webhookJobId);
+	}
+	const indexerMatch = endpoint.match(
+		/^\/api\/indexers\/(\d+)\/(clear-failures|refresh-caps|enable|disable)$/,
+	);
+	if (indexerMatch) {
+		metricsEndpoint = `/api/indexers/:id/${indexerMatch[2]}`;
+		if (!checkMethod("POST", endpoint)) return;
+		if (!(await authorize(req, res, ApiKeyScope.ADMIN))) return;
+		return manageIndexer(
+			req,
+			res,
+			Number(indexerMatch[1]),
+			indexerMatch[2],
+		);
+	}
 	switch (endpoint) {
 		case "/api/announce":
 			if (!checkMethod("POST", endpoint)) return;
-			if (!(await authorize(req, res))) return;
+			if (!(await authorize(req, res, ApiKeyScope.ANNOUNCE))) return;
 			return announce(req, res);
 		case "/api/webhook":
 			if (!checkMethod("POST", endpoint)) return;
-			if (!(await authorize(req, res))) return;
+			if (!(await authorize(req, res, ApiKeyScope.WEBHOOK))) return;
 			return search(req, res);
+		case "/api/inject":
+			if (!checkMethod("POST", endpoint)) return;
+			if (!(await authorize(req, res, ApiKeyScope.ADMIN))) return;
+			return inject(req, res);
 		case "/api/job":
 			if (!checkMethod("POST", endpoint)) return;
-			if (!(await authorize(req, res))) return;
+			if (!(await authorize(req, res, ApiKeyScope.JOB))) return;
 			return runJob(req, res);
+		case "/api/job/cancel":
+			if (!checkMethod("POST", endpoint)) return;
+			if (!(await authorize(req, res, ApiKeyScope.JOB))) return;
+			return controlJob(req, res, JobControl.CANCEL);
+		case "/api/job/pause":
+			if (!checkMethod("POST", endpoint)) return;
+			if (!(await authorize(req, res, ApiKeyScope.JOB))) return;
+			return controlJob(req, res, JobControl.PAUSE);
+		case "/api/job/resume":
+			if (!checkMethod("POST", endpoint)) return;
+			if (!(await authorize(req, res, ApiKeyScope.JOB))) return;
+			return controlJob(req, res, "resume");
 		case "/api/ping":
 			if (!checkMethod("GET", endpoint)) return;
 			return ping(req, res);
 		case "/api/status":
 			if (!checkMethod("GET", endpoint)) return;
-			if (!(await authorize(req, res))) return;
+			if (!(await authorize(req, res, ApiKeyScope.READ))) return;
 			return status(req, res);
+		case "/api/indexers":
+			if (!checkMethod("GET", endpoint)) return;
+			if (!(await authorize(req, res, ApiKeyScope.READ))) return;
+			return indexers(req, res);
+		case "/api/decisions":
+			if (!checkMethod("GET", endpoint)) return;
+			if (!(await authorize(req, res, ApiKeyScope.READ))) return;
+			return decisions(req, res);
+		case "/api/job-runs":
+			if (!checkMethod("GET", endpoint)) return;
+			if (!(await authorize(req, res, ApiKeyScope.READ))) return;
+			return jobRuns(req, res);
+		case "/api/stats":
+			if (!checkMethod("GET", endpoint)) return;
+			if (!(await authorize(req, res, ApiKeyScope.READ))) return;
+			return stats(req, res);
+		case "/api/recent-candidates":
+			if (!checkMethod("GET", endpoint)) return;
+			if (!(await authorize(req, res, ApiKeyScope.READ))) return;
+			return recentCandidates(req, res);
+		case "/api/events":
+			if (!checkMethod("GET", endpoint)) return;
+			if (!(await authorize(req, res, ApiKeyScope.READ))) return;
+			return events(req, res);
+		case "/api/metrics":
+			if (!checkMethod("GET", endpoint)) return;
+			if (!(await authorize(req, res, ApiKeyScope.READ))) return;
+			return metrics(req, res);
+		case "/api/config/reload":
+			if (!checkMethod("POST", endpoint)) return;
+			if (!(await authorize(req, res, ApiKeyScope.ADMIN))) return;
+			return configReload(req, res);
 		default: {
+			metricsEndpoint = "unknown";
 			const message = `Unknown endpoint: ${endpoint}`;
 			logger.error({ label: Label.SERVER, message });
 			res.writeHead(404);
@@ -492,6 +1197,7 @@ export async function serve(port?: number, host?: string): Promise<void> {
 		const server = http.createServer(handleRequest);
 		server.listen(port, host);
 		function stop() {
+			server.closeAllConnections(); // event streams never end on their own
 			server.close(() => {
 				logger.info({
 					label: Label.SERVER,
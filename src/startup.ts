@@ -4,22 +4,39 @@ import { inspect } from "util";
 import { testLinking } from "./action.js";
 import { validateUArrLs } from "./arr.js";
 import {
+	createDownloadClients,
 	getClients,
 	instantiateDownloadClients,
+	TorrentClient,
 } from "./clients/TorrentClient.js";
 import { customizeErrorMessage, VALIDATION_SCHEMA } from "./configSchema.js";
 import { NEWLINE_INDENT, PROGRAM_NAME, PROGRAM_VERSION } from "./constants.js";
 import { db } from "./db.js";
 import { CrossSeedError, exitOnCrossSeedErrors } from "./errors.js";
+import { syncJobsWithConfig } from "./jobs.js";
 import { initializeLogger, Label, logger } from "./logger.js";
+import { fetchProwlarrTorznab, setDiscoveredTorznab } from "./prowlarr.js";
 import { initializePushNotifier } from "./pushNotifier.js";
 import {
 	getRuntimeConfig,
 	RuntimeConfig,
 	setRuntimeConfig,
+	TorznabEntry,
 } from "./runtimeConfig.js";
-import { validateTorznabUrls } from "./torznab.js";
-import { Awaitable, mapAsync, notExists, verifyDir, wait } from "./utils.js";
+import {
+	checkTorznabUrls,
+	syncIndexersWithConfig,
+	validateTorznabUrls,
+} from "./torznab.js";
+import {
+	Awaitable,
+	mapAsync,
+	Mutex,
+	notExists,
+	verifyDir,
+	wait,
+	withMutex,
+} from "./utils.js";
 
 export async function exitGracefully() {
 	await db.destroy();
@@ -31,11 +48,13 @@ process.on("SIGTERM", exitGracefully);
 
 /**
  * verifies the config paths provided against the filesystem
- * @returns true (if paths are valid)
+ * @param runtimeConfig the config to verify, the current one by default
  */
-async function checkConfigPaths(): Promise<void> {
+async function checkConfigPaths(
+	runtimeConfig = getRuntimeConfig(),
+): Promise<void> {
 	const { dataDirs, injectDir, linkDirs, outputDir, torrentDir } =
-		getRuntimeConfig();
+		runtimeConfig;
 	const READ_ONLY = constants.R_OK;
 	const READ_AND_WRITE = constants.R_OK | constants.W_OK;
 	let pathFailure: number = 0;
@@ -248,7 +267,7 @@ export function withMinimalRuntime<
  * @param entrypoint
  */
 export function withFullRuntime(
-	entrypoint: (runtimeConfig: RuntimeConfig) => Promise<void>,
+	entrypoint: (runtimeConfig: RuntimeConfig) => Promise<unknown>,
 ): CommanderActionCb {
 	return withMinimalRuntime(async (options) => {
 		initializeLogger(options as Record<string, unknown>);
@@ -259,3 +278,70 @@ export function withFullRuntime(
 		await entrypoint(runtimeConfig);
 	});
 }
+
+let loadReloadedOptions: (() => Promise<Record<string, unknown>>) | null = null;
+
+/**
+ * Allows the config to be reloaded with SIGHUP or the api
+ * @param loadOptions re-reads the config file and command line options
+ */
+export function enableConfigReload(
+	loadOptions: () => Promise<Record<string, unknown>>,
+): void {
+	loadReloadedOptions = loadOptions;
+	process.on("SIGHUP", () => {
+		reloadConfig().catch((e) => {
+			logger.error(`Failed to reload configuration: ${e.message}`);
+			logger.debug(e);
+		});
+	});
+}
+
+/**
+ * Re-parses the config and swaps it in if it is valid, otherwise the previous
+ * config is kept. The new config is fully validated before anything uses it.
+ * Changes to port and host require a restart.
+ */
+export async function reloadConfig(): Promise<void> {
+	return withMutex(Mutex.RELOAD_CONFIG, { useQueue: true }, async () => {
+		if (!loadReloadedOptions) {
+			throw new CrossSeedError(
+				"Reloading the configuration is only supported by the daemon",
+			);
+		}
+		logger.info("Reloading configuration...");
+		const options = await loadReloadedOptions();
+		const previous = getRuntimeConfig();
+		const next = parseRuntimeConfigAndLogErrors(options);
+
+		let clients: TorrentClient[];
+		let discoveredTorznab: TorznabEntry[];
+		try {
+			await checkConfigPaths(next);
+			checkTorznabUrls(next.torznab);
+			discoveredTorznab = await fetchProwlarrTorznab(next);
+			clients = createDownloadClients(next.torrentClients);
+			await mapAsync(clients, (client) => client.validateConfig(next));
+		} catch (e) {
+			logger.error(
+				"The new configuration is invalid, keeping the previous configuration",
+			);
+			throw e;
+		}
+		setRuntimeConfig(next);
+		instantiateDownloadClients(clients);
+		setDiscoveredTorznab(discoveredTorznab);
+		await syncIndexersWithConfig();
+		initializePushNotifier();
+		syncJobsWithConfig();
+
+		if (next.port !== previous.port || next.host !== previous.host) {
+			logger.warn("Changes to port or host require a restart");
+		}
+		logger.verbose({
+			label: Label.CONFIGDUMP,
+			message: inspect(next),
+		});
+		logger.info("Configuration reloaded");
+	});
+}
@@ -0,0 +1,244 @@
+import chalk from "chalk";
+import { z } from "zod";
+import {
+	Decision,
+	isAnyMatchedDecision,
+	UNKNOWN_TRACKER,
+} from "./constants.js";
+import { db } from "./db.js";
+import { transformTimeBound } from "./decisionHistory.js";
+import { humanReadableDate, humanReadableSize, sanitizeUrl } from "./utils.js";
+
+const MAX_REJECTION_REASONS = 3;
+
+export interface TrackerStats {
+	tracker: string;
+	/**
+	 * Searchees searched on the indexers named after the tracker
+	 */
+	searches: number;
+	candidates: number;
+	snatches: number;
+	decisions: Partial<Record<Decision, number>>;
+	injected: number;
+	/**
+	 * Only known for torrents in the client_searchee table (useClientTorrents)
+	 */
+	crossSeededBytes: number;
+	topRejections: { decision: Decision; count: number }[];
+}
+
+export interface StatsReport {
+	since: number | null;
+	until: number | null;
+	trackers: TrackerStats[];
+}
+
+export const STATS_QUERY_SCHEMA = z
+	.object({
+		tracker: z.string().min(1).optional(),
+		since: z.string().transform(transformTimeBound).optional(),
+		until: z.string().transform(transformTimeBound).optional(),
+	})
+	.strict();
+
+export type StatsQuery = z.infer<typeof STATS_QUERY_SCHEMA>;
+
+const MATCHED_DECISIONS = Object.values(Decision).filter(isAnyMatchedDecision);
+
+function filterDecisions(query: StatsQuery) {
+	const { tracker, since, until } = query;
+	let filtered = db("decision");
+	if (tracker) filtered = filtered.whereLike("decision.tracker", tracker);
+	if (since !== undefined) {
+		filtered = filtered.where("decision.last_seen", ">=", since);
+	}
+	if (until !== undefined) {
+		filtered = filtered.where("decision.last_seen", "<=", until);
+	}
+	return filtered;
+}
+
+async function getSearchesByIndexerName(
+	query: StatsQuery,
+): Promise<Map<string, number>> {
+	const { since, until } = query;
+	let filtered = db("timestamp").join(
+		"indexer",
+		"timestamp.indexer_id",
+		"indexer.id",
+	);
+	if (since !== undefined) {
+		filtered = filtered.where("timestamp.last_searched", ">=", since);
+	}
+	if (until !== undefined) {
+		filtered = filtered.where("timestamp.last_searched", "<=", until);
+	}
+	const rows: { name: string | null; url: string; searches: number }[] =
+		await filtered
+			.select({ name: "indexer.name", url: "indexer.url" })
+			.count({ searches: "*" })
+			.groupBy("indexer.id");
+	return rows.reduce((acc, { name, url, searches }) => {
+		const key = name ?? sanitizeUrl(url);
+		acc.set(key, (acc.get(key) ?? 0) + searches);
+		return acc;
+	}, new Map<string, number>());
+}
+
+/**
+ * Aggregates the decision, timestamp, and indexer tables by tracker, with the
+ * torrents already in the client or torrentDir counted as injected
+ */
+export async function getStats(query: StatsQuery): Promise<StatsReport> {
+	const statsByTracker = new Map<string, TrackerStats>();
+	const getTrackerStats = (tracker: string | null) => {
+		const key = tracker ?? UNKNOWN_TRACKER;
+		const existing = [...statsByTracker.keys()].find(
+			(t) => t.toLowerCase() === key.toLowerCase(),
+		);
+		if (existing) return statsByTracker.get(existing)!;
+		const stats: TrackerStats = {
+			tracker: key,
+			searches: 0,
+			candidates: 0,
+			snatches: 0,
+			decisions: {},
+			injected: 0,
+			crossSeededBytes: 0,
+			topRejections: [],
+		};
+		statsByTracker.set(key, stats);
+		return stats;
+	};
+
+	const decisionCounts: {
+		tracker: string | null;
+		decision: Decision;
+		count: number;
+	}[] = await filterDecisions(query)
+		.select({ tracker: "decision.tracker", decision: "decision.decision" })
+		.count({ count: "*" })
+		.groupBy("decision.tracker", "decision.decision");
+	for (const { tracker, decision, count } of decisionCounts) {
+		const stats = getTrackerStats(tracker);
+		stats.decisions[decision] = (stats.decisions[decision] ?? 0) + count;
+	}
+
+	const guidCounts: {
+		tracker: string | null;
+		candidates: number;
+		snatches: number;
+	}[] = await filterDecisions(query)
+		.select({ tracker: "decision.tracker" })
+		.countDistinct({ candidates: "decision.guid" })
+		.select(
+			db.raw(
+				"count(distinct case when decision.info_hash is not null then decision.guid end) as snatches",
+			),
+		)
+		.groupBy("decision.tracker");
+	for (const { tracker, candidates, snatches } of guidCounts) {
+		const stats = getTrackerStats(tracker);
+		stats.candidates += candidates;
+		stats.snatches += snatches;
+	}
+
+	const injected: { tracker: string | null; infoHash: string }[] =
+		await filterDecisions(query)
+			.whereIn("decision.decision", MATCHED_DECISIONS)
+			.where((builder) =>
+				builder
+					.whereIn(
+						"decision.info_hash",
+						db("client_searchee").select("info_hash"),
+					)
+					.orWhereIn(
+						"decision.info_hash",
+						db("torrent").select("info_hash"),
+					),
+			)
+			.distinct({
+				tracker: "decision.tracker",
+				infoHash: "decision.info_hash",
+			});
+	const lengths: { infoHash: string; length: number }[] = await db(
+		"client_searchee",
+	)
+		.whereIn(
+			"info_hash",
+			filterDecisions(query)
+				.whereIn("decision.decision", MATCHED_DECISIONS)
+				.select("decision.info_hash"),
+		)
+		.select({ infoHash: "info_hash" })
+		.max({ length: "length" })
+		.groupBy("info_hash");
+	const lengthByInfoHash = new Map(
+		lengths.map(({ infoHash, length }) => [infoHash, length]),
+	);
+	for (const { tracker, infoHash } of injected) {
+		const stats = getTrackerStats(tracker);
+		stats.injected++;
+		stats.crossSeededBytes += lengthByInfoHash.get(infoHash) ?? 0;
+	}
+
+	for (const [name, searches] of await getSearchesByIndexerName(query)) {
+		if (
+			query.tracker &&
+			name.toLowerCase() !== query.tracker.toLowerCase()
+		) {
+			continue;
+		}
+		getTrackerStats(name).searches += searches;
+	}
+
+	for (const stats of statsByTracker.values()) {
+		stats.topRejections = Object.entries(stats.decisions)
+			.filter(([decision]) => !isAnyMatchedDecision(decision as Decision))
+			.map(([decision, count]) => ({
+				decision: decision as Decision,
+				count,
+			}))
+			.sort((a, b) => b.count - a.count)
+			.slice(0, MAX_REJECTION_REASONS);
+	}
+
+	return {
+		since: query.since ?? null,
+		until: query.until ?? null,
+		trackers: [...statsByTracker.values()].sort(
+			(a, b) =>
+				b.injected - a.injected ||
+				b.snatches - a.snatches ||
+				a.tracker.localeCompare(b.tracker),
+		),
+	};
+}
+
+/**
+ * Human readable summary of the stats for the CLI
+ */
+export function formatStats(report: StatsReport): string {
+	const { since, until, trackers } = report;
+	if (!trackers.length) return "No stats found";
+	const lines = [
+		`Stats from ${since !== null ? humanReadableDate(since) : "the beginning"} until ${until !== null ? humanReadableDate(until) : "now"}`,
+	];
+	for (const stats of trackers) {
+		const matches = Object.entries(stats.decisions)
+			.filter(([decision]) => isAnyMatchedDecision(decision as Decision))
+			.map(([decision, count]) => `${decision}: ${count}`);
+		const rejections = stats.topRejections.map(
+			({ decision, count }) => `${decision}: ${count}`,
+		);
+		lines.push(
+			chalk.bold(stats.tracker),
+			`\tsearches: ${stats.searches}, candidates: ${stats.candidates}, snatches: ${stats.snatches}`,
+			`\tmatches: ${matches.length ? chalk.green(matches.join(", ")) : "none"}`,
+			`\tinjected: ${stats.injected}, cross-seeded: ${humanReadableSize(stats.crossSeededBytes)}`,
+			`\ttop rejections: ${rejections.length ? chalk.yellow(rejections.join(", ")) : "none"}`,
+		);
+	}
+	return lines.join("\n");
+}
@@ -26,9 +26,18 @@ import {
 	shouldIgnorePathHeuristically,
 } from "./dataFiles.js";
 import { db } from "./db.js";
+import { getIndexerById, getTorznabEntry } from "./indexers.js";
 import { Label, logger, logOnce } from "./logger.js";
+import { snatches } from "./metrics.js";
 import { Metafile, updateMetafileMetadata } from "./parseTorrent.js";
 import { Candidate } from "./pipeline.js";
+import { getProxyDispatcher } from "./proxy.js";
+import {
+	MAX_RATE_LIMIT_WAIT,
+	RateLimitKind,
+	waitForRateLimitToken,
+} from "./rateLimits.js";
+import { matchRecentCandidates } from "./recentCandidates.js";
 import { isOk, Result, resultOf, resultOfErr } from "./Result.js";
 import { getRuntimeConfig } from "./runtimeConfig.js";
 import {
@@ -77,6 +86,10 @@ export interface FilenameMetadata {
 export enum SnatchError {
 	ABORTED = "ABORTED",
 	RATE_LIMITED = "RATE_LIMITED",
+	/**
+	 * The grab budget of the indexer is used up, only this grab is deferred
+	 */
+	GRAB_DEFERRED = "GRAB_DEFERRED",
 	MAGNET_LINK = "MAGNET_LINK",
 	INVALID_CONTENTS = "INVALID_CONTENTS",
 	UNKNOWN_ERROR = "UNKNOWN_ERROR",
@@ -162,8 +175,28 @@ async function snatchOnce(
 	| Metafile
 	| { snatchError: SnatchError; retryAfterMs?: number; extra?: string }
 > {
-	const { snatchTimeout } = getRuntimeConfig();
+	const indexer =
+		candidate.indexerId !== undefined
+			? await getIndexerById(candidate.indexerId)
+			: undefined;
+	const snatchTimeout =
+		(indexer && getTorznabEntry(indexer.url)?.snatchTimeout) ??
+		getRuntimeConfig().snatchTimeout;
 	const url = candidate.link;
+	if (indexer) {
+		const retryAt = await waitForRateLimitToken(
+			indexer.id,
+			RateLimitKind.GRAB,
+			MAX_RATE_LIMIT_WAIT,
+		);
+		if (retryAt) {
+			return {
+				snatchError: SnatchError.GRAB_DEFERRED,
+				retryAfterMs: retryAt - Date.now(),
+				extra: `grab budget exhausted`,
+			};
+		}
+	}
 
 	let response: Response;
 	try {
@@ -176,6 +209,7 @@ async function snatchOnce(
 				typeof snatchTimeout === "number"
 					? AbortSignal.timeout(snatchTimeout)
 					: undefined,
+			dispatcher: getProxyDispatcher(indexer?.url),
 		});
 	} catch (e) {
 		if (e.name === "AbortError" || e.name === "TimeoutError") {
@@ -255,6 +289,13 @@ export async function snatch(
 	for (let i = 0; i <= retries; i++) {
 		const progress = `${i + 1}/${retries + 1}`;
 		const snatchResult = await snatchOnce(candidate);
+		snatches.inc({
+			tracker: candidate.tracker,
+			outcome:
+				snatchResult instanceof Metafile
+					? "OK"
+					: snatchResult.snatchError,
+		});
 		if (snatchResult instanceof Metafile) {
 			logger.verbose({
 				label,
@@ -266,6 +307,7 @@ export async function snatch(
 		snatchError = snatchResult.snatchError;
 		if (
 			snatchError === SnatchError.RATE_LIMITED ||
+			snatchError === SnatchError.GRAB_DEFERRED ||
 			snatchError === SnatchError.MAGNET_LINK
 		) {
 			snatchHistory.delete(candidate.link);
@@ -442,10 +484,13 @@ export async function cacheEnsembleTorrentEntry(
 	}));
 }
 
-async function indexTorrents(options: { startup: boolean }): Promise<void> {
+/**
+ * @return the titles of the torrents that are new since the last run
+ */
+async function indexTorrents(options: { startup: boolean }): Promise<string[]> {
 	const { seasonFromEpisodes, torrentDir, useClientTorrents } =
 		getRuntimeConfig();
-	if (!useClientTorrents && !torrentDir) return;
+	if (!useClientTorrents && !torrentDir) return [];
 	const clients = getClients();
 	let searchees: SearcheeWithInfoHash[];
 	let infoHashPathMap: Map<string, string> | undefined;
@@ -503,7 +548,10 @@ async function indexTorrents(options: { startup: boolean }): Promise<void> {
 			);
 		}
 	}
-	if (!seasonFromEpisodes) return;
+	const titles = options.startup
+		? []
+		: searchees.map((searchee) => searchee.title);
+	if (!seasonFromEpisodes) return titles;
 
 	const ensembleRows = await flatMapAsync(
 		searchees,
@@ -516,6 +564,7 @@ async function indexTorrents(options: { startup: boolean }): Promise<void> {
 			.onConflict(["client_host", "path"])
 			.merge();
 	});
+	return titles;
 }
 
 async function indexTorrentDir(dir: string): Promise<SearcheeWithInfoHash[]> {
@@ -633,8 +682,12 @@ export async function indexTorrentsAndDataDirs(
 			const maxRetries = 3;
 			for (let attempt = 1; attempt <= maxRetries; attempt++) {
 				try {
-					await indexDataDirs(options); // Running together may increase failures
-					await indexTorrents(options); // Run second so this data is more fresh
+					const titles = await indexDataDirs(options); // Running together may increase failures
+					titles.push(...(await indexTorrents(options))); // Run second so this data is more fresh
+					if (!options.startup) {
+						// Snatches can be slow, don't hold up the next index
+						void matchRecentCandidates(titles);
+					}
 					break;
 				} catch (e) {
 					const msg = `Indexing failed (${maxRetries - attempt}): ${e.message}`;
@@ -684,11 +737,13 @@ export async function loadTorrentDirLight(
 	return searchees;
 }
 
-function getKeysFromName(stem: string): {
+interface NameKeys {
 	keyTitles: string[];
 	element?: string | number;
 	useFallback: boolean;
-} {
+}
+
+function getKeysFromName(stem: string): NameKeys {
 	const episodeKeys = getEpisodeKeys(stem);
 	if (episodeKeys) {
 		const keyTitles = episodeKeys.keyTitles;
@@ -715,6 +770,40 @@ function getKeysFromName(stem: string): {
 	return { keyTitles: [], useFallback: true };
 }
 
+/**
+ * Whether the names are for the same element and have similar key titles,
+ * always false for names without keys
+ */
+function keysAreSimilar(a: NameKeys, b: NameKeys): boolean {
+	if (a.element !== b.element) return false;
+	if (!a.keyTitles.length || !b.keyTitles.length) return false;
+	const maxDistance = Math.floor(
+		Math.min(...[...a.keyTitles, ...b.keyTitles].map((t) => t.length)) /
+			LEVENSHTEIN_DIVISOR,
+	);
+	return a.keyTitles.some((aKeyTitle) =>
+		b.keyTitles.some(
+			(bKeyTitle) => distance(aKeyTitle, bKeyTitle) <= maxDistance,
+		),
+	);
+}
+
+/**
+ * @return the names that are similar to any of the others by their keys
+ */
+export function filterSimilarNames(
+	names: string[],
+	others: string[],
+): string[] {
+	const otherKeys = others.map((other) =>
+		getKeysFromName(stripExtension(other)),
+	);
+	return names.filter((name) => {
+		const keys = getKeysFromName(stripExtension(name));
+		return otherKeys.some((other) => keysAreSimilar(keys, other));
+	});
+}
+
 export async function getSimilarByName(name: string): Promise<{
 	keys: string[];
 	clientSearchees: SearcheeWithInfoHash[];
@@ -722,7 +811,8 @@ export async function getSimilarByName(name: string): Promise<{
 }> {
 	const { torrentDir, useClientTorrents } = getRuntimeConfig();
 	const stem = stripExtension(name);
-	const { keyTitles, element, useFallback } = getKeysFromName(stem);
+	const nameKeys = getKeysFromName(stem);
+	const { keyTitles, element, useFallback } = nameKeys;
 	const clientSearchees = useFallback
 		? await getTorrentByFuzzyName(stem)
 		: [];
@@ -744,28 +834,14 @@ export async function getSimilarByName(name: string): Promise<{
 		}
 		return { keys: [], clientSearchees, dataSearchees };
 	}
-	const candidateMaxDistance = Math.floor(
-		Math.min(...keyTitles.map((t) => t.length)) / LEVENSHTEIN_DIVISOR,
-	);
 
 	const filterEntries = async (dbEntries: TorrentEntry[]) => {
-		return filterAsyncYield(dbEntries, async (dbEntry) => {
-			const entry = getKeysFromName(dbEntry.title ?? dbEntry.name!);
-			if (entry.element !== element) return false;
-			if (!entry.keyTitles.length) return false;
-			const maxDistance = Math.min(
-				candidateMaxDistance,
-				Math.floor(
-					Math.min(...entry.keyTitles.map((t) => t.length)) /
-						LEVENSHTEIN_DIVISOR,
-				),
-			);
-			return entry.keyTitles.some((dbKeyTitle) => {
-				return keyTitles.some(
-					(keyTitle) => distance(keyTitle, dbKeyTitle) <= maxDistance,
-				);
-			});
-		});
+		return filterAsyncYield(dbEntries, async (dbEntry) =>
+			keysAreSimilar(
+				nameKeys,
+				getKeysFromName(dbEntry.title ?? dbEntry.name!),
+			),
+		);
 	};
 
 	if (useClientTorrents) {
@@ -25,15 +25,40 @@ import {
 	Caps,
 	getActiveIndexers,
 	getEnabledIndexers,
+	getIndexerById,
+	getTorznabEntry,
 	IdSearchCaps,
+	incrementIndexerFailures,
 	Indexer,
 	IndexerStatus,
+	resetIndexerFailures,
 	updateIndexerCapsById,
 	updateIndexerStatus,
 } from "./indexers.js";
 import { Label, logger } from "./logger.js";
+import { torznabRequests } from "./metrics.js";
 import { Candidate, CandidateWithIndexerId } from "./pipeline.js";
-import { getRuntimeConfig, RuntimeConfig } from "./runtimeConfig.js";
+import { discoverProwlarrIndexers, getTorznabEntries } from "./prowlarr.js";
+import { getProxyDispatcher } from "./proxy.js";
+import {
+	sendIndexerFailingNotification,
+	sendIndexerRecoveredNotification,
+} from "./pushNotifier.js";
+import { getCachedQueryResults, withQueryCache } from "./queryCache.js";
+import {
+	MAX_RATE_LIMIT_WAIT,
+	msUntilRateLimitToken,
+	RateLimitKind,
+	syncRateLimits,
+	updateRateLimitFromHeaders,
+	waitForRateLimitToken,
+} from "./rateLimits.js";
+import {
+	getRuntimeConfig,
+	RuntimeConfig,
+	TorznabEntry,
+} from "./runtimeConfig.js";
+import { parseSearchResponse } from "./searchResults.js";
 import {
 	getMediaType,
 	getSearcheeNewestFileAge,
@@ -42,6 +67,7 @@ import {
 	SearcheeWithoutInfoHash,
 } from "./searchee.js";
 import {
+	AsyncSemaphore,
 	cleanTitle,
 	comparing,
 	extractInt,
@@ -83,10 +109,73 @@ interface TorznabRequest {
 	query: Query;
 }
 
+/**
+ * Consecutive failures after which an indexer is only retried with a single
+ * probe request each time its snooze ends
+ */
+const CIRCUIT_BREAKER_THRESHOLD = 5;
+const MAX_BACKOFF = ms("1 day");
+
+/**
+ * The order waiting requests are granted an indexer's request slot
+ */
+enum SearchPriority {
+	BULK = 0,
+	RSS = 1,
+	WEBHOOK = 2,
+}
+
+/**
+ * Each indexer serves one request at a time so that freshly downloaded
+ * torrents aren't stuck behind a long bulk search
+ */
+const indexerRequestSlots = new Map<number, AsyncSemaphore>();
+
+/**
+ * The search counts of the running bulk searches. Webhook searches aren't held
+ * back by searchLimit, they take from the budget of the bulk searches instead.
+ */
+const bulkSearchCounts = new Set<Map<number, number>>();
+
+/**
+ * Counts webhook searches against the searchLimit of a bulk search
+ * @return stops counting, once the bulk search is done
+ */
+export function trackBulkSearchCount(
+	indexerSearchCount: Map<number, number>,
+): () => void {
+	bulkSearchCounts.add(indexerSearchCount);
+	return () => bulkSearchCounts.delete(indexerSearchCount);
+}
+
+/**
+ * Counts a search sent to the indexer towards searchLimit
+ */
+function countSearch(
+	indexerSearchCount: Map<number, number>,
+	indexerId: number,
+	searcheeLabel: string,
+): void {
+	const counts =
+		searcheeLabel === Label.WEBHOOK
+			? [indexerSearchCount, ...bulkSearchCounts]
+			: [indexerSearchCount];
+	for (const count of counts) {
+		count.set(indexerId, (count.get(indexerId) ?? 0) + 1);
+	}
+}
+
+/**
+ * When indexers were last searched, for the delay between searches
+ */
+const lastIndexerSearch = new Map<number, number>();
+
 type TorznabSearchTechnique =
 	| []
 	| [{ $: { available: "yes" | "no"; supportedParams: string } }];
-type LimitXmlElement = { $: { default: string; max: string } };
+type LimitXmlElement = {
+	$: { default: string; max: string; apimax?: string; grabmax?: string };
+};
 type CategoryXmlElement = { $: { id: string; name: string } };
 type TorznabCaps = {
 	caps?: {
@@ -105,19 +194,6 @@ type TorznabCaps = {
 	};
 };
 
-interface TorznabResult {
-	guid: [string];
-	title: [string];
-	prowlarrindexer?: [{ _: string }];
-	jackettindexer?: [{ _: string }];
-	indexer?: [{ _: string }];
-	link: [string];
-	size: [string];
-	pubDate: [string];
-}
-
-type TorznabResults = { rss?: { channel?: [] | [{ item?: TorznabResult[] }] } };
-
 export type IndexerCandidates = {
 	indexerId: number;
 	candidates: CandidateWithIndexerId[];
@@ -125,39 +201,15 @@ export type IndexerCandidates = {
 export type CachedSearch = {
 	q: string | null;
 	indexerCandidates: IndexerCandidates[];
-	lastSearch: number;
 	ids?: ExternalIds;
 };
 
-function parseTorznabResults(
-	xml: TorznabResults,
-	indexerId: number,
-): CandidateWithIndexerId[] {
-	const items = xml?.rss?.channel?.[0]?.item;
-	if (!items || !Array.isArray(items)) {
-		return [];
-	}
-
-	return items.map((item) => ({
-		guid: item.guid[0],
-		name: item.title[0],
-		tracker: (
-			item?.prowlarrindexer?.[0]?._ ??
-			item?.jackettindexer?.[0]?._ ??
-			item?.indexer?.[0]?._ ??
-			UNKNOWN_TRACKER
-		).trim(),
-		link: item.link[0],
-		size: Number(item.size[0]),
-		pubDate: new Date(item.pubDate[0]).getTime(),
-		indexerId,
-	}));
-}
-
 function parseTorznabCaps(xml: TorznabCaps): Caps {
 	const limits = xml?.caps?.limits?.map((limit) => ({
 		default: parseInt(limit.$.default),
 		max: parseInt(limit.$.max),
+		apiMax: parseInt(limit.$.apimax ?? "") || undefined,
+		grabMax: parseInt(limit.$.grabmax ?? "") || undefined,
 	}))[0] ?? { default: 100, max: 100 };
 
 	const searchingSection = xml?.caps?.searching?.[0];
@@ -382,6 +434,8 @@ export async function logQueries(
 }
 
 export function indexerDoesSupportMediaType(mediaType: MediaType, i: Indexer) {
+	const mediaTypes = getTorznabEntry(i.url)?.mediaTypes;
+	if (mediaTypes && !mediaTypes.includes(mediaType)) return false;
 	switch (mediaType) {
 		case MediaType.EPISODE:
 		case MediaType.SEASON:
@@ -522,7 +576,9 @@ export async function queryRssFeeds(
 	lastRun: number,
 ): Promise<AsyncGenerator<Candidate>[]> {
 	const timeSinceLastRun = Date.now() - lastRun;
-	const indexers = await getEnabledIndexers();
+	const indexers = (await getEnabledIndexers()).filter(
+		(indexer) => getTorznabEntry(indexer.url)?.rss !== false,
+	);
 	return indexers.map((indexer) => rssPager(indexer, timeSinceLastRun));
 }
 
@@ -533,8 +589,7 @@ export async function searchTorznab(
 	progress: string,
 	options?: { configOverride: Partial<RuntimeConfig> },
 ): Promise<IndexerCandidates[]> {
-	const { torznab } = getRuntimeConfig();
-	if (torznab.length === 0) {
+	if (getTorznabEntries().length === 0) {
 		logger.warn({
 			label: searchee.label,
 			message: "no indexers are available, skipping search",
@@ -543,17 +598,22 @@ export async function searchTorznab(
 	}
 
 	const mediaType = getMediaType(searchee);
-	const { indexersToSearch, parsedMedia } = await getAndLogIndexers(
-		searchee,
-		indexerSearchCount,
-		cachedSearch,
-		mediaType,
-		progress,
-		options,
-	);
+	const { indexersToSearch, cacheOnlyIds, parsedMedia } =
+		await getAndLogIndexers(
+			searchee,
+			indexerSearchCount,
+			cachedSearch,
+			mediaType,
+			progress,
+			options,
+		);
 	const indexerCandidates = await makeRequests(
 		indexersToSearch,
 		searchee.label,
+		getRuntimeConfig(options?.configOverride).delay,
+		cacheOnlyIds,
+		(indexerId) =>
+			countSearch(indexerSearchCount, indexerId, searchee.label),
 		async (indexer): Promise<Query[]> => {
 			const caps = {
 				search: indexer.searchCap,
@@ -579,7 +639,7 @@ export async function searchTorznab(
 }
 
 export async function syncWithDb() {
-	const { torznab } = getRuntimeConfig();
+	const torznab = getTorznabEntries().map((entry) => entry.url);
 
 	const activeIndexers = await getActiveIndexers();
 
@@ -645,6 +705,7 @@ export async function syncWithDb() {
 			.where({ status: IndexerStatus.UNKNOWN_ERROR })
 			.update({ status: IndexerStatus.OK });
 	});
+	await syncRateLimits();
 }
 
 export function assembleUrl(
@@ -673,6 +734,7 @@ async function fetchCaps(indexer: Indexer): Promise<Caps> {
 			{
 				headers: { "User-Agent": USER_AGENT },
 				signal: AbortSignal.timeout(ms("1 minute")),
+				dispatcher: getProxyDispatcher(indexer.url),
 			},
 		);
 	} catch (e) {
@@ -764,6 +826,7 @@ export async function updateCaps(): Promise<void> {
 	for (const [indexerId, caps] of fulfilled) {
 		await updateIndexerCapsById(indexerId, caps);
 	}
+	await syncRateLimits();
 	for (const indexer of await getActiveIndexers()) {
 		if (!indexer.categories) {
 			logger.error({
@@ -788,11 +851,40 @@ export async function updateCaps(): Promise<void> {
 	}
 }
 
-export async function validateTorznabUrls() {
-	const { torznab } = getRuntimeConfig();
-	if (!torznab) return;
+/**
+ * Rediscovers the indexers of Prowlarr before refetching the caps of all
+ * indexers, keeping the previous ones if Prowlarr can't be reached
+ */
+export async function updateIndexersAndCaps(): Promise<void> {
+	if (getRuntimeConfig().prowlarr) {
+		try {
+			await discoverProwlarrIndexers();
+			await syncWithDb();
+		} catch (e) {
+			logger.error({
+				label: Label.PROWLARR,
+				message: `Failed to discover indexers: ${e.message}`,
+			});
+			logger.debug(e);
+		}
+	}
+	await updateCaps();
+}
+
+/**
+ * Refetches the caps of a single indexer, throws if it couldn't be reached
+ */
+export async function updateCapsForIndexer(indexer: Indexer): Promise<Caps> {
+	const caps = await fetchCaps(indexer);
+	await updateIndexerCapsById(indexer.id, caps);
+	return caps;
+}
 
-	const urls: URL[] = torznab.map((str) => new URL(str));
+/**
+ * @throws if a torznab url of the config can't be an indexer
+ */
+export function checkTorznabUrls(torznab: TorznabEntry[]): void {
+	const urls: URL[] = torznab.map((entry) => new URL(entry.url));
 	for (const url of urls) {
 		if (!url.pathname.endsWith("/api")) {
 			throw new CrossSeedError(
@@ -805,6 +897,18 @@ export async function validateTorznabUrls() {
 			);
 		}
 	}
+}
+
+export async function validateTorznabUrls() {
+	checkTorznabUrls(getRuntimeConfig().torznab);
+	await discoverProwlarrIndexers();
+	await syncIndexersWithConfig();
+}
+
+/**
+ * Brings the indexer table and caps in line with the current torznab entries
+ */
+export async function syncIndexersWithConfig(): Promise<void> {
 	await syncWithDb();
 	await updateCaps();
 
@@ -826,39 +930,179 @@ export async function validateTorznabUrls() {
 }
 
 /**
- * Snooze indexers based on the response headers and status code.
- * specifically for a search, probably not applicable to a caps fetch.
- * @returns the retry time in ms
+ * Snoozes the indexer, doubling the snooze with each consecutive failure
+ * unless it sent a Retry-After
+ * @param response undefined if the request failed before a response
+ * @return when the indexer will be retried
  */
-async function onResponseNotOk(
-	response: Response,
+export async function onRequestFailure(
 	indexerId: number,
 	indexerName: string,
+	response?: Response,
 ): Promise<number> {
-	const retryAfterSeconds = Number(response.headers.get("Retry-After"));
-
+	const consecutiveFailures = await incrementIndexerFailures(indexerId);
+	const retryAfterHeader = response?.headers.get("Retry-After");
+	const retryAfterSeconds = retryAfterHeader
+		? Number(retryAfterHeader)
+		: Number.NaN;
+	const initialBackoff =
+		response?.status === 429 ? ms("1 hour") : ms("10 minutes");
 	const retryAfter = !Number.isNaN(retryAfterSeconds)
 		? Date.now() + ms(`${retryAfterSeconds} seconds`)
-		: response.status === 429
-			? Date.now() + ms("1 hour")
-			: Date.now() + ms("10 minutes");
+		: Date.now() +
+			Math.min(
+				initialBackoff * 2 ** (consecutiveFailures - 1),
+				MAX_BACKOFF,
+			);
+	const status =
+		consecutiveFailures >= CIRCUIT_BREAKER_THRESHOLD
+			? IndexerStatus.CIRCUIT_OPEN
+			: response?.status === 429
+				? IndexerStatus.RATE_LIMITED
+				: IndexerStatus.UNKNOWN_ERROR;
 
 	await updateIndexerStatus(
-		response.status === 429
-			? IndexerStatus.RATE_LIMITED
-			: IndexerStatus.UNKNOWN_ERROR,
+		status,
 		retryAfter,
 		[indexerId],
 		new Set([indexerName]),
 	);
+	if (consecutiveFailures === CIRCUIT_BREAKER_THRESHOLD) {
+		logger.error({
+			label: Label.TORZNAB,
+			message: `${indexerName} disabled after ${consecutiveFailures} consecutive failures, retrying with a single request at ${humanReadableDate(retryAfter)}`,
+		});
+		sendIndexerFailingNotification(
+			indexerName,
+			consecutiveFailures,
+			retryAfter,
+		);
+	}
 	return retryAfter;
 }
 
+export async function onRequestSuccess(
+	indexerId: number,
+	indexerName: string,
+): Promise<void> {
+	const previousStatus = await resetIndexerFailures(indexerId);
+	if (previousStatus !== IndexerStatus.CIRCUIT_OPEN) return;
+	logger.info({
+		label: Label.TORZNAB,
+		message: `${indexerName} recovered, searching it again`,
+	});
+	sendIndexerRecoveredNotification(indexerName);
+}
+
+function getSearchPriority(searcheeLabel: string): SearchPriority {
+	switch (searcheeLabel) {
+		case Label.WEBHOOK:
+			return SearchPriority.WEBHOOK;
+		case Label.RSS:
+			return SearchPriority.RSS;
+		default:
+			return SearchPriority.BULK;
+	}
+}
+
+/**
+ * Runs the request once it holds the indexer's slot and the indexer is ready
+ * for it. The delay and request tokens are per indexer, so the slot is held
+ * while waiting for them, but a higher priority request that queued in the
+ * meantime goes first once the indexer is ready. A token further out than
+ * MAX_RATE_LIMIT_WAIT is left to makeRequestNow to defer.
+ * @param getReadyAt when the delay of the indexer allows the next request
+ */
+export async function withIndexerRequestSlot<T>(
+	indexerId: number,
+	searcheeLabel: string,
+	cb: () => Promise<T>,
+	getReadyAt: () => number = () => 0,
+): Promise<T> {
+	let slot = indexerRequestSlots.get(indexerId);
+	if (!slot) {
+		slot = new AsyncSemaphore({ permits: 1, lifetimeMs: ms("5 minutes") });
+		indexerRequestSlots.set(indexerId, slot);
+	}
+	const priority = getSearchPriority(searcheeLabel);
+	let slotId = await slot.acquire(priority);
+	try {
+		for (;;) {
+			const msUntilToken = await msUntilRateLimitToken(
+				indexerId,
+				RateLimitKind.REQUEST,
+			);
+			const waitMs = Math.max(
+				getReadyAt() - Date.now(),
+				msUntilToken > MAX_RATE_LIMIT_WAIT ? 0 : msUntilToken,
+			);
+			if (waitMs > 0) {
+				await wait(waitMs);
+				continue;
+			}
+			if (!slot.hasWaiterAbove(priority)) return await cb();
+			slot.release(slotId);
+			slotId = await slot.acquire(priority);
+		}
+	} finally {
+		slot.release(slotId);
+	}
+}
+
+/**
+ * Responds from the query cache unless it's an RSS or webhook request,
+ * otherwise queues the request for the indexer's slot. Webhook searches are
+ * for new releases, so they refresh the cache instead.
+ * @param delayMs the delay of the indexer between searches, RSS isn't delayed
+ * @param onSearch called once the request is sent to the indexer
+ */
 async function makeRequest(
 	request: TorznabRequest,
 	searcheeLabel: string,
+	delayMs?: number,
+	onSearch?: () => void,
+): Promise<CandidateWithIndexerId[]> {
+	const fetchResults = () =>
+		withIndexerRequestSlot(
+			request.indexerId,
+			searcheeLabel,
+			() => {
+				if (delayMs !== undefined) {
+					lastIndexerSearch.set(request.indexerId, Date.now());
+				}
+				onSearch?.();
+				return makeRequestNow(request, searcheeLabel);
+			},
+			() =>
+				delayMs !== undefined
+					? (lastIndexerSearch.get(request.indexerId) ?? 0) + delayMs
+					: 0,
+		);
+	const { queryCacheTtl } = getRuntimeConfig();
+	if (!queryCacheTtl || searcheeLabel === Label.RSS) return fetchResults();
+	const { candidates, cached } = await withQueryCache(
+		request.indexerId,
+		request.query,
+		queryCacheTtl,
+		fetchResults,
+		searcheeLabel === Label.WEBHOOK,
+	);
+	if (cached) {
+		logger.verbose({
+			label: searcheeLabel,
+			message: `Using ${candidates.length} cached results from ${request.name ?? request.indexerId} for ${inspect(request.query)}`,
+		});
+	}
+	return candidates;
+}
+
+async function makeRequestNow(
+	request: TorznabRequest,
+	searcheeLabel: string,
 ): Promise<CandidateWithIndexerId[]> {
-	const { searchTimeout } = getRuntimeConfig();
+	const searchTimeout =
+		getTorznabEntry(request.baseUrl)?.searchTimeout ??
+		getRuntimeConfig().searchTimeout;
 	const url = assembleUrl(request.baseUrl, request.apikey, request.query);
 	const abortSignal =
 		typeof searchTimeout === "number"
@@ -868,26 +1112,83 @@ async function makeRequest(
 		label: searcheeLabel,
 		message: `Querying ${request.name ?? request.indexerId} at ${request.baseUrl} with ${inspect(request.query)}`,
 	});
-	const response = await fetch(url, {
-		headers: { "User-Agent": USER_AGENT },
-		signal: abortSignal,
-	});
+	const indexerLabel = request.name ?? sanitizeUrl(request.baseUrl);
+	// a failure earlier in the queue snoozes the requests behind it, which
+	// also limits an indexer with an open circuit to a single probe
+	const indexer = await getIndexerById(request.indexerId);
+	if (
+		indexer?.status &&
+		indexer.status !== IndexerStatus.OK &&
+		indexer.retryAfter > Date.now()
+	) {
+		throw new Error(
+			`snoozed with ${indexer.status} until ${humanReadableDate(indexer.retryAfter)}`,
+		);
+	}
+	const retryAt = await waitForRateLimitToken(
+		request.indexerId,
+		RateLimitKind.REQUEST,
+		MAX_RATE_LIMIT_WAIT,
+	);
+	if (retryAt) {
+		throw new Error(
+			`request budget exhausted, deferring until ${humanReadableDate(retryAt)}`,
+		);
+	}
+	let response: Response;
+	try {
+		response = await fetch(url, {
+			headers: { "User-Agent": USER_AGENT },
+			signal: abortSignal,
+			dispatcher: getProxyDispatcher(request.baseUrl),
+		});
+	} catch (e) {
+		torznabRequests.inc({
+			indexer: indexerLabel,
+			outcome: "network_error",
+		});
+		const retryAfter = await onRequestFailure(
+			request.indexerId,
+			request.name ?? request.baseUrl,
+		);
+		throw new Error(
+			`request failed with ${e.name === "TimeoutError" ? "a timeout" : e.message}, snoozing until ${humanReadableDate(retryAfter)}`,
+			{ cause: e },
+		);
+	}
+	await updateRateLimitFromHeaders(request.indexerId, response.headers);
 	if (!response.ok) {
-		const retryAfter = await onResponseNotOk(
-			response,
+		torznabRequests.inc({
+			indexer: indexerLabel,
+			outcome: response.status === 429 ? "rate_limited" : "http_error",
+		});
+		const retryAfter = await onRequestFailure(
 			request.indexerId,
 			request.name ?? request.baseUrl,
+			response,
 		);
 		throw new Error(
 			`request failed with code ${response.status}${response.status === 429 ? " due to rate limiting" : ""}, snoozing until ${humanReadableDate(retryAfter)}`,
 		);
 	}
-	const xml = await response.text();
-	const torznabResults: unknown = await xml2js.parseStringPromise(xml);
-	const candidates = parseTorznabResults(
-		torznabResults as TorznabResults,
-		request.indexerId,
-	);
+	let candidates: CandidateWithIndexerId[];
+	try {
+		candidates = await parseSearchResponse(response, request.indexerId);
+	} catch (e) {
+		torznabRequests.inc({ indexer: indexerLabel, outcome: "parse_error" });
+		const retryAfter = await onRequestFailure(
+			request.indexerId,
+			request.name ?? request.baseUrl,
+		);
+		throw new Error(
+			`${e.message}, snoozing until ${humanReadableDate(retryAfter)}`,
+			{
+				cause: e,
+			},
+		);
+	}
+	torznabRequests.inc({ indexer: indexerLabel, outcome: "success" });
+	await onRequestSuccess(request.indexerId, request.name ?? request.baseUrl);
 	if (candidates.length && candidates[0].tracker !== UNKNOWN_TRACKER) {
 		await db("indexer")
 			.where({ id: request.indexerId })
@@ -896,14 +1197,61 @@ async function makeRequest(
 	return candidates;
 }
 
+/**
+ * @return the cached results of every query, null unless all are cached
+ */
+async function getCachedIndexerCandidates(
+	indexerId: number,
+	queries: Query[],
+	ttl: number,
+): Promise<CandidateWithIndexerId[] | null> {
+	const candidates: CandidateWithIndexerId[] = [];
+	for (const query of queries) {
+		const cached = await getCachedQueryResults(indexerId, query, ttl);
+		if (!cached) return null;
+		candidates.push(...cached);
+	}
+	return candidates;
+}
+
+/**
+ * @param cacheOnlyIds the indexers that are only used if all their queries
+ * are cached
+ * @param onSearch called once for each indexer a request is sent to
+ */
 async function makeRequests(
 	indexers: Indexer[],
 	searcheeLabel: string,
+	globalDelay: number,
+	cacheOnlyIds: Set<number>,
+	onSearch: (indexerId: number) => void,
 	getQueriesForIndexer: (indexer: Indexer) => Promise<Query[]>,
 ): Promise<IndexerCandidates[]> {
+	const { queryCacheTtl } = getRuntimeConfig();
 	const requests: TorznabRequest[] = [];
+	const cachedIndexerCandidates: IndexerCandidates[] = [];
 	for (const indexer of indexers) {
 		const queries = await getQueriesForIndexer(indexer);
+		if (cacheOnlyIds.has(indexer.id)) {
+			const candidates = queryCacheTtl
+				? await getCachedIndexerCandidates(
+						indexer.id,
+						queries,
+						queryCacheTtl,
+					)
+				: null;
+			if (candidates) {
+				logger.verbose({
+					label: searcheeLabel,
+					message: `Using ${candidates.length} cached results from ${indexer.name ?? indexer.url} despite its search limit`,
+				});
+				cachedIndexerCandidates.push({
+					indexerId: indexer.id,
+					candidates,
+				});
+			}
+			continue;
+		}
 		requests.push(
 			...queries.map((query) => ({
 				indexerId: indexer.id,
@@ -915,8 +1263,22 @@ async function makeRequests(
 		);
 	}
 
+	const searchedIds = new Set<number>();
 	const outcomes = await Promise.allSettled<CandidateWithIndexerId[]>(
-		requests.map((request) => makeRequest(request, searcheeLabel)),
+		requests.map((request) =>
+			makeRequest(
+				request,
+				searcheeLabel,
+				ms(
+					`${getTorznabEntry(request.baseUrl)?.delay ?? globalDelay} seconds`,
+				),
+				() => {
+					if (searchedIds.has(request.indexerId)) return;
+					searchedIds.add(request.indexerId);
+					onSearch(request.indexerId);
+				},
+			),
+		),
 	);
 
 	const { rejected, fulfilled } = collateOutcomes<
@@ -936,10 +1298,13 @@ async function makeRequests(
 		logger.debug(reason);
 	}
 
-	return fulfilled.map(([indexerId, results]) => ({
-		indexerId,
-		candidates: results,
-	}));
+	return [
+		...cachedIndexerCandidates,
+		...fulfilled.map(([indexerId, results]) => ({
+			indexerId,
+			candidates: results,
+		})),
+	];
 }
 
 async function getAndLogIndexers(
@@ -949,13 +1314,17 @@ async function getAndLogIndexers(
 	mediaType: MediaType,
 	progress: string,
 	options?: { configOverride: Partial<RuntimeConfig> },
-): Promise<{ indexersToSearch: Indexer[]; parsedMedia?: ParsedMedia }> {
+): Promise<{
+	indexersToSearch: Indexer[];
+	cacheOnlyIds: Set<number>;
+	parsedMedia?: ParsedMedia;
+}> {
 	const {
-		delay,
 		excludeRecentSearch,
 		excludeOlder,
 		seasonFromEpisodes,
 		searchLimit,
+		queryCacheTtl,
 	} = getRuntimeConfig(options?.configOverride);
 	const searcheeLog = getLogString(searchee, chalk.bold.white);
 	const mediaTypeLog = chalk.white(mediaType.toUpperCase());
@@ -981,9 +1350,15 @@ async function getAndLogIndexers(
 	const skipBefore = excludeOlder
 		? nMsAgo(excludeOlder)
 		: Number.NEGATIVE_INFINITY;
-	const skipAfter = excludeRecentSearch
-		? nMsAgo(excludeRecentSearch)
-		: Number.POSITIVE_INFINITY;
+	const getSkipAfter = (indexer: Indexer) => {
+		const indexerExcludeRecentSearch =
+			options?.configOverride.excludeRecentSearch ??
+			getTorznabEntry(indexer.url)?.excludeRecentSearch ??
+			excludeRecentSearch;
+		return indexerExcludeRecentSearch
+			? nMsAgo(indexerExcludeRecentSearch)
+			: Number.POSITIVE_INFINITY;
+	};
 	const isEnsemble =
 		seasonFromEpisodes && !searchee.infoHash && !searchee.path;
 	const newestFileAge = isEnsemble
@@ -991,7 +1366,13 @@ async function getAndLogIndexers(
 		: Number.POSITIVE_INFINITY;
 	const disabledIndexers: Indexer[] = [];
 	const timeFilteredIndexers = activeIndexers.filter((indexer) => {
-		if (indexer.searchCap === false || !indexer.categories) return false;
+		if (
+			indexer.searchCap === false ||
+			!indexer.categories ||
+			getTorznabEntry(indexer.url)?.search === false
+		) {
+			return false;
+		}
 		const entry = timestampDataSql.find(
 			(entry) => entry.indexerId === indexer.id,
 		);
@@ -1020,7 +1401,7 @@ async function getAndLogIndexers(
 		if (entry.firstSearched && entry.firstSearched < skipBefore) {
 			return false;
 		}
-		if (entry.lastSearched && entry.lastSearched > skipAfter) {
+		if (entry.lastSearched && entry.lastSearched > getSkipAfter(indexer)) {
 			return false;
 		}
 		if (!enabledIndexers.some((i) => i.id === indexer.id)) {
@@ -1057,7 +1438,21 @@ async function getAndLogIndexers(
 		cachedSearch.indexerCandidates.length = 0;
 		cachedSearch.ids = undefined; // Don't prematurely get ids if skipping
 	}
+	const budgetExhaustedIds = new Set<number>();
+	for (const indexer of indexersToUse) {
+		const msUntilToken = await msUntilRateLimitToken(
+			indexer.id,
+			RateLimitKind.REQUEST,
+		);
+		if (msUntilToken > MAX_RATE_LIMIT_WAIT) {
+			budgetExhaustedIds.add(indexer.id);
+		}
+	}
+	const isWebhook = searchee.label === Label.WEBHOOK;
+	// searches are counted once sent, so a cached search doesn't count
+	const cacheOnlyIds = new Set<number>();
 	const searchLimitedIndexers: Indexer[] = [];
+	const budgetLimitedIndexers: Indexer[] = [];
 	const indexersToSearch = indexersToUse.filter((indexer) => {
 		if (
 			cachedSearch.indexerCandidates.some(
@@ -1066,23 +1461,29 @@ async function getAndLogIndexers(
 		) {
 			return false;
 		}
-		if (!searchLimit) return true;
-
-		if (!indexerSearchCount.has(indexer.id)) {
-			indexerSearchCount.set(indexer.id, 0);
+		if (budgetExhaustedIds.has(indexer.id)) {
+			budgetLimitedIndexers.push(indexer);
+			return false;
 		}
-		if (indexerSearchCount.get(indexer.id)! >= searchLimit) {
+		const indexerSearchLimit =
+			getTorznabEntry(indexer.url)?.searchLimit ?? searchLimit;
+		const searchCount = indexerSearchCount.get(indexer.id) ?? 0;
+		if (
+			!isWebhook &&
+			indexerSearchLimit &&
+			searchCount >= indexerSearchLimit
+		) {
 			searchLimitedIndexers.push(indexer);
-			return false;
+			if (!queryCacheTtl) return false;
+			cacheOnlyIds.add(indexer.id);
 		}
-		indexerSearchCount.set(
-			indexer.id,
-			indexerSearchCount.get(indexer.id)! + 1,
-		);
 		return true;
 	});
 	const searchLimitedMsg = searchLimitedIndexers.length
-		? `Skipping searching for ${searcheeLog} due to search limit on [${searchLimitedIndexers.map((i) => i.name ?? i.url).join(", ")}]`
+		? `${queryCacheTtl ? "Only using cached results" : "Skipping searching"} for ${searcheeLog} due to search limit on [${searchLimitedIndexers.map((i) => i.name ?? i.url).join(", ")}]`
+		: null;
+	const budgetLimitedMsg = budgetLimitedIndexers.length
+		? `Deferring searching for ${searcheeLog} until the request budgets of [${budgetLimitedIndexers.map((i) => i.name ?? i.url).join(", ")}] refill`
 		: null;
 
 	if (!indexersToSearch.length && !cachedSearch.indexerCandidates.length) {
@@ -1093,6 +1494,7 @@ async function getAndLogIndexers(
 			timeFilteredIndexers.length > indexersToUse.length && "category",
 			disabledIndexers.length && "temporarily disabled indexers",
 			searchLimitedIndexers.length && "searchLimit",
+			budgetLimitedIndexers.length && "request budgets",
 		].filter(isTruthy);
 		const reasonStr = filteringCauses.length
 			? ` (filtered by ${formatAsList(filteringCauses, { sort: true })})`
@@ -1107,10 +1509,16 @@ async function getAndLogIndexers(
 				message: searchLimitedMsg,
 			});
 		}
+		if (budgetLimitedMsg) {
+			logger.verbose({
+				label: searchee.label,
+				message: budgetLimitedMsg,
+			});
+		}
 		if (disabledMsg) {
 			logger.verbose({ label: searchee.label, message: disabledMsg });
 		}
-		return { indexersToSearch };
+		return { indexersToSearch, cacheOnlyIds };
 	}
 
 	if (shouldScanArr) {
@@ -1120,12 +1528,6 @@ async function getAndLogIndexers(
 	}
 	const idsStr = cachedSearch.ids ? formatFoundIds(cachedSearch.ids) : "NONE";
 
-	if (indexersToSearch.length) {
-		const waitUntil = cachedSearch.lastSearch + ms(`${delay} seconds`);
-		if (Date.now() < waitUntil) await wait(waitUntil - Date.now());
-		cachedSearch.lastSearch = Date.now();
-	}
-
 	logger.info({
 		label: searchee.label,
 		message: `${progress}Searching for ${searcheeLog} | MediaType: ${mediaTypeLog} | IDs: ${idsStr}`,
@@ -1133,9 +1535,12 @@ async function getAndLogIndexers(
 	if (searchLimitedMsg) {
 		logger.verbose({ label: searchee.label, message: searchLimitedMsg });
 	}
+	if (budgetLimitedMsg) {
+		logger.verbose({ label: searchee.label, message: budgetLimitedMsg });
+	}
 	if (disabledMsg) {
 		logger.verbose({ label: searchee.label, message: disabledMsg });
 	}
 
-	return { indexersToSearch, parsedMedia };
+	return { indexersToSearch, cacheOnlyIds, parsedMedia };
 }
@@ -190,8 +190,21 @@ export function nMsAgo(n: number): number {
 	return Date.now() - n;
 }
 
-export function wait(n: number): Promise<void> {
-	return new Promise((resolve) => setTimeout(resolve, n));
+/**
+ * @param signal resolves early, without throwing, once aborted
+ */
+export function wait(n: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve) => {
+		const timeout = setTimeout(resolve, n);
+		signal?.addEventListener(
+			"abort",
+			() => {
+				clearTimeout(timeout);
+				resolve();
+			},
+			{ once: true },
+		);
+	});
 }
 
 /**
@@ -735,6 +748,8 @@ export enum Mutex {
 	CREATE_ALL_SEARCHEES = "CREATE_ALL_SEARCHEES",
 	GUID_INFO_HASH_MAP = "GUID_INFO_HASH_MAP",
 	CLIENT_INJECTION = "CLIENT_INJECTION",
+	RELOAD_CONFIG = "RELOAD_CONFIG",
+	MATCH_RECENT_CANDIDATES = "MATCH_RECENT_CANDIDATES",
 }
 const mutexes = new Map<Mutex, Promise<unknown>>();
 
@@ -770,7 +785,7 @@ export async function withMutex<T>(
 }
 
 /**
- * An async safe semaphore implementation that preserves FIFO order.
+ * An async safe semaphore implementation that preserves FIFO order within each priority.
  * It uses an id for release to allow multiple releases (e.g try/finally with early releases).
  * @param options.permits The number of concurrent permits.
  * @param options.lifetimeMs Maximum lifetime of an acquire before automatic release.
@@ -780,7 +795,7 @@ export class AsyncSemaphore {
 	private lifetimeMs?: number;
 	private acquired: Set<number> = new Set();
 	private timers: Map<number, NodeJS.Timeout> = new Map();
-	private waiting: ((id: number) => void)[] = [];
+	private waiting: { priority: number; resolve: (id: number) => void }[] = [];
 	private counter: number = 0;
 	private getNextId = () => {
 		if (this.counter === Number.MAX_SAFE_INTEGER) this.counter = 0;
@@ -798,7 +813,10 @@ export class AsyncSemaphore {
 		}
 	}
 
-	acquire(): Promise<number> {
+	/**
+	 * @param priority waiters with a higher priority are granted a permit first
+	 */
+	acquire(priority = 0): Promise<number> {
 		return new Promise<number>((resolve) => {
 			if (this.permits > 0) {
 				this.permits--;
@@ -812,11 +830,25 @@ export class AsyncSemaphore {
 				}
 				resolve(id);
 			} else {
-				this.waiting.push(resolve);
+				const index = this.waiting.findIndex(
+					(waiter) => waiter.priority < priority,
+				);
+				this.waiting.splice(
+					index === -1 ? this.waiting.length : index,
+					0,
+					{ priority, resolve },
+				);
 			}
 		});
 	}
 
+	/**
+	 * @return whether a waiter with a higher priority is queued
+	 */
+	hasWaiterAbove(priority: number): boolean {
+		return this.waiting.length > 0 && this.waiting[0].priority > priority;
+	}
+
 	release(id: number): void {
 		if (!this.acquired.has(id)) return;
 		this.acquired.delete(id);
@@ -832,7 +864,7 @@ export class AsyncSemaphore {
 					setTimeout(() => this.release(newId), this.lifetimeMs),
 				);
 			}
-			this.waiting.shift()!(newId);
+			this.waiting.shift()!.resolve(newId);
 		} else {
 			this.permits++;
 		}
@@ -0,0 +1,95 @@
+import { randomUUID } from "node:crypto";
+import ms from "ms";
+import { SearcheeReport } from "./pipeline.js";
+
+export enum WebhookJobState {
+	QUEUED = "queued",
+	RUNNING = "running",
+	DONE = "done",
+	FAILED = "failed",
+}
+
+export interface WebhookJob {
+	id: string;
+	state: WebhookJobState;
+	criteria: { infoHash?: string; path?: string };
+	/**
+	 * Matches are assessed but no actions are performed
+	 */
+	dryRun: boolean;
+	createdAt: number;
+	startedAt: number | null;
+	finishedAt: number | null;
+	/**
+	 * null if every searchee was filtered out before searching
+	 */
+	totalFound: number | null;
+	error: string | null;
+	searchees: SearcheeReport[];
+}
+
+const MAX_FINISHED_JOBS = 100;
+const FINISHED_JOB_TTL = ms("1 day");
+
+const webhookJobs = new Map<string, WebhookJob>();
+
+/**
+ * Drops finished jobs that have expired or exceed the retention limit.
+ * Maps iterate in insertion order so the oldest jobs are dropped first.
+ */
+function pruneWebhookJobs(): void {
+	const finished = Array.from(webhookJobs.values()).filter(
+		(job) => job.finishedAt !== null,
+	);
+	let excess = finished.length - MAX_FINISHED_JOBS;
+	for (const job of finished) {
+		if (excess > 0 || Date.now() - job.finishedAt! > FINISHED_JOB_TTL) {
+			webhookJobs.delete(job.id);
+			excess--;
+		}
+	}
+}
+
+export function createWebhookJob(
+	criteria: WebhookJob["criteria"],
+	options: { dryRun: boolean },
+): WebhookJob {
+	pruneWebhookJobs();
+	const job: WebhookJob = {
+		id: randomUUID(),
+		state: WebhookJobState.QUEUED,
+		criteria,
+		dryRun: options.dryRun,
+		createdAt: Date.now(),
+		startedAt: null,
+		finishedAt: null,
+		totalFound: null,
+		error: null,
+		searchees: [],
+	};
+	webhookJobs.set(job.id, job);
+	return job;
+}
+
+export function getWebhookJob(id: string): WebhookJob | undefined {
+	return webhookJobs.get(id);
+}
+
+export function startWebhookJob(job: WebhookJob): void {
+	job.state = WebhookJobState.RUNNING;
+	job.startedAt = Date.now();
+}
+
+export function finishWebhookJob(
+	job: WebhookJob,
+	outcome: { totalFound: number | null } | { error: string },
+): void {
+	job.finishedAt = Date.now();
+	if ("error" in outcome) {
+		job.state = WebhookJobState.FAILED;
+		job.error = outcome.error;
+	} else {
+		job.state = WebhookJobState.DONE;
+		job.totalFound = outcome.totalFound;
+	}
+}
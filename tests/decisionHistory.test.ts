@@ -0,0 +1,88 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+await vi.hoisted(async () => {
+	const { mkdtempSync } = await import("fs");
+	const { tmpdir } = await import("os");
+	const { join } = await import("path");
+	process.env.CONFIG_DIR = mkdtempSync(join(tmpdir(), "cross-seed-"));
+});
+
+import { Decision, UNKNOWN_TRACKER } from "../src/constants";
+import { db } from "../src/db";
+import { DECISION_QUERY_SCHEMA, queryDecisions } from "../src/decisionHistory";
+
+const query = (params: Record<string, string>) =>
+	queryDecisions(DECISION_QUERY_SCHEMA.parse(params));
+
+describe("queryDecisions", () => {
+	beforeAll(async () => {
+		await db.migrate.latest();
+		await db("indexer").insert([
+			{
+				id: 1,
+				name: "Foo",
+				url: "https://foo.example/api",
+				active: true,
+			},
+			{ id: 2, url: "https://bar.example/api", active: true },
+		]);
+		await db("searchee").insert({ id: 1, name: "Example.Searchee" });
+		await db("decision").insert([
+			{
+				searchee_id: 1,
+				guid: "foo-1",
+				tracker: "Foo",
+				decision: Decision.MATCH,
+				first_seen: 1,
+				last_seen: 3,
+			},
+			{
+				searchee_id: 1,
+				guid: "baz-1",
+				tracker: "Baz",
+				decision: Decision.SIZE_MISMATCH,
+				first_seen: 1,
+				last_seen: 2,
+			},
+			{
+				searchee_id: 1,
+				guid: "old-1",
+				tracker: null,
+				decision: Decision.RESOLUTION_MISMATCH,
+				first_seen: 1,
+				last_seen: 1,
+			},
+		]);
+	});
+
+	afterAll(async () => {
+		await db.destroy();
+	});
+
+	it("filters by the indexer's id, name, or url", async () => {
+		for (const indexer of ["1", "foo", "https://foo.example/api"]) {
+			const page = await query({ indexer });
+			expect(page.decisions.map((d) => d.guid)).toEqual(["foo-1"]);
+		}
+	});
+
+	it("finds nothing for an indexer without a name", async () => {
+		const page = await query({ indexer: "2" });
+		expect(page.total).toBe(0);
+		expect(page.decisions).toEqual([]);
+	});
+
+	it("labels decisions without a tracker", async () => {
+		const page = await query({});
+		expect(page.decisions.map((d) => d.tracker)).toEqual([
+			"Foo",
+			"Baz",
+			UNKNOWN_TRACKER,
+		]);
+	});
+
+	it("filters the decisions without a tracker", async () => {
+		const page = await query({ tracker: UNKNOWN_TRACKER });
+		expect(page.decisions.map((d) => d.guid)).toEqual(["old-1"]);
+	});
+});
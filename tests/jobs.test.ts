@@ -0,0 +1,117 @@
+import ms from "ms";
+import winston from "winston";
+import {
+	afterAll,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	vi,
+} from "vitest";
+
+await vi.hoisted(async () => {
+	const { mkdtempSync } = await import("fs");
+	const { tmpdir } = await import("os");
+	const { join } = await import("path");
+	process.env.CONFIG_DIR = mkdtempSync(join(tmpdir(), "cross-seed-"));
+});
+
+const { bulkSearch } = vi.hoisted(() => ({ bulkSearch: vi.fn() }));
+
+vi.mock("../src/pipeline", () => ({ bulkSearch, scanRssFeeds: vi.fn() }));
+
+vi.mock("../src/logger", async (importOriginal) => ({
+	...(await importOriginal<typeof import("../src/logger")>()),
+	logger: winston.createLogger({ silent: true }),
+}));
+
+import { Action } from "../src/constants";
+import { db } from "../src/db";
+import {
+	checkJobs,
+	getJobLastRun,
+	getJobs,
+	JobControl,
+	JobName,
+	syncJobsWithConfig,
+} from "../src/jobs";
+import { RuntimeConfig, setRuntimeConfig } from "../src/runtimeConfig";
+
+const getSearchJob = () => getJobs().find((j) => j.name === JobName.SEARCH)!;
+
+/**
+ * Starts the search job and stops it once it is running
+ */
+async function stopSearch(control: JobControl): Promise<void> {
+	await checkJobs();
+	const job = getSearchJob();
+	expect(job.isActive).toBe(true);
+	job.stop(control);
+	await vi.waitFor(() => expect(job.isActive).toBe(false));
+}
+
+describe("checkJobs", () => {
+	beforeAll(async () => {
+		await db.migrate.latest();
+		setRuntimeConfig({
+			action: Action.SAVE,
+			searchCadence: ms("1 day"),
+			torznab: [],
+		} as unknown as RuntimeConfig);
+		syncJobsWithConfig();
+	});
+
+	beforeEach(async () => {
+		const job = getSearchJob();
+		job.isPaused = false;
+		job.delayNextRun = false;
+		await db("job_log").del();
+		// keeps the cleanup job from running alongside
+		await db("job_log").insert({
+			name: JobName.CLEANUP,
+			last_run: Date.now(),
+		});
+		bulkSearch.mockReset();
+		bulkSearch.mockImplementation(
+			({ signal }: { signal: AbortSignal }) =>
+				new Promise((resolve) =>
+					signal.addEventListener("abort", () => resolve(undefined)),
+				),
+		);
+	});
+
+	afterAll(async () => {
+		await db.destroy();
+	});
+
+	it("doesn't start a cancelled job again until its next run", async () => {
+		const job = getSearchJob();
+		job.delayNextRun = true;
+		await stopSearch(JobControl.CANCEL);
+		await vi.waitFor(async () =>
+			expect(await getJobLastRun(JobName.SEARCH)).toBeDefined(),
+		);
+		expect(await getJobLastRun(JobName.SEARCH)).toBeLessThanOrEqual(
+			Date.now(),
+		);
+		expect(job.delayNextRun).toBe(false);
+
+		await checkJobs();
+		expect(bulkSearch).toHaveBeenCalledTimes(1);
+		expect(job.isActive).toBe(false);
+	});
+
+	it("doesn't record a paused run or start it until resumed", async () => {
+		await stopSearch(JobControl.PAUSE);
+		await checkJobs();
+		expect(bulkSearch).toHaveBeenCalledTimes(1);
+		expect(await getJobLastRun(JobName.SEARCH)).toBeUndefined();
+
+		getSearchJob().isPaused = false;
+		await checkJobs();
+		expect(bulkSearch).toHaveBeenCalledTimes(2);
+		getSearchJob().stop(JobControl.CANCEL);
+		await vi.waitFor(() => expect(getSearchJob().isActive).toBe(false));
+	});
+});
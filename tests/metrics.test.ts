@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+
+import { Metric } from "../src/metrics";
+
+describe("Metric", () => {
+	it("renders counters in the Prometheus text format", () => {
+		const metric = new Metric("test_total", "A test counter", "counter");
+		metric.inc({ indexer: "foo", outcome: "success" });
+		metric.inc({ indexer: "foo", outcome: "success" }, 2);
+		metric.inc({ indexer: "bar", outcome: "rate_limited" });
+
+		expect(metric.render()).toBe(
+			[
+				"# HELP test_total A test counter",
+				"# TYPE test_total counter",
+				'test_total{indexer="foo",outcome="success"} 3',
+				'test_total{indexer="bar",outcome="rate_limited"} 1',
+			].join("\n"),
+		);
+	});
+
+	it("escapes label values", () => {
+		const metric = new Metric("test_total", "A test counter", "counter");
+		metric.inc({ name: 'a"b\\c\nd' });
+
+		expect(metric.render()).toContain(
+			'test_total{name="a\\"b\\\\c\\nd"} 1',
+		);
+	});
+
+	it("only allows gauges to be set", () => {
+		const gauge = new Metric("test_gauge", "A test gauge", "gauge");
+		gauge.set({}, 5);
+		gauge.set({}, 2);
+		expect(gauge.render()).toContain("test_gauge 2");
+
+		const counter = new Metric("test_total", "A test counter", "counter");
+		expect(() => counter.set({}, 1)).toThrow();
+	});
+});
@@ -0,0 +1,153 @@
+import winston from "winston";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+await vi.hoisted(async () => {
+	const { mkdtempSync } = await import("fs");
+	const { tmpdir } = await import("os");
+	const { join } = await import("path");
+	process.env.CONFIG_DIR = mkdtempSync(join(tmpdir(), "cross-seed-"));
+});
+
+vi.mock("../src/logger", async (importOriginal) => ({
+	...(await importOriginal<typeof import("../src/logger")>()),
+	logger: winston.createLogger({ silent: true }),
+}));
+
+// loaded first like the app does, otherwise the logger is imported in the
+// middle of its import cycle
+import "../src/clients/TorrentClient";
+import {
+	discoverProwlarrIndexers,
+	fetchProwlarrTorznab,
+	getTorznabEntries,
+	setDiscoveredTorznab,
+} from "../src/prowlarr";
+import { RuntimeConfig, setRuntimeConfig } from "../src/runtimeConfig";
+
+const PROWLARR = "http://localhost:9696/prowlarr?apikey=abc123";
+
+const indexers = [
+	{ id: 1, name: "Foo", enable: true, protocol: "torrent", tags: [1] },
+	{ id: 2, name: "Bar", enable: true, protocol: "torrent", tags: [1, 2] },
+	{ id: 3, name: "Baz", enable: true, protocol: "torrent", tags: [] },
+	{ id: 4, name: "Disabled", enable: false, protocol: "torrent", tags: [1] },
+	{ id: 5, name: "Usenet", enable: true, protocol: "usenet", tags: [1] },
+];
+
+const tags = [
+	{ id: 1, label: "cross-seed" },
+	{ id: 2, label: "slow" },
+];
+
+const config = (overrides: Partial<RuntimeConfig> = {}) =>
+	({
+		prowlarr: PROWLARR,
+		prowlarrTags: [],
+		prowlarrExcludeTags: [],
+		torznab: [],
+		...overrides,
+	}) as RuntimeConfig;
+
+const fetchMock = vi.fn(async (url: URL) =>
+	Response.json(url.pathname.endsWith("/tag") ? tags : indexers),
+);
+
+describe("fetchProwlarrTorznab", () => {
+	beforeEach(() => {
+		vi.stubGlobal("fetch", fetchMock);
+		fetchMock.mockClear();
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("builds a torznab entry for each enabled torrent indexer", async () => {
+		const entries = await fetchProwlarrTorznab(config());
+		expect(entries).toEqual(
+			[1, 2, 3].map((id) => ({
+				url: `http://localhost:9696/prowlarr/${id}/api?apikey=abc123`,
+				rss: true,
+				search: true,
+			})),
+		);
+		const [url, init] = fetchMock.mock.calls[0] as unknown as [
+			URL,
+			RequestInit,
+		];
+		expect(url.href).toBe("http://localhost:9696/prowlarr/api/v1/indexer");
+		expect(init.headers).toMatchObject({ "X-Api-Key": "abc123" });
+	});
+
+	it("filters by the included and excluded tags", async () => {
+		const included = await fetchProwlarrTorznab(
+			config({ prowlarrTags: ["Cross-Seed"] }),
+		);
+		expect(included.map((entry) => entry.url)).toEqual([
+			"http://localhost:9696/prowlarr/1/api?apikey=abc123",
+			"http://localhost:9696/prowlarr/2/api?apikey=abc123",
+		]);
+
+		const excluded = await fetchProwlarrTorznab(
+			config({
+				prowlarrTags: ["cross-seed"],
+				prowlarrExcludeTags: ["slow"],
+			}),
+		);
+		expect(excluded.map((entry) => entry.url)).toEqual([
+			"http://localhost:9696/prowlarr/1/api?apikey=abc123",
+		]);
+	});
+
+	it("doesn't contact Prowlarr unless configured", async () => {
+		expect(await fetchProwlarrTorznab(config({ prowlarr: null }))).toEqual(
+			[],
+		);
+		expect(fetchMock).not.toHaveBeenCalled();
+	});
+
+	it("requires an apikey", async () => {
+		await expect(
+			fetchProwlarrTorznab(
+				config({ prowlarr: "http://localhost:9696/prowlarr" }),
+			),
+		).rejects.toThrow("does not specify an apikey");
+	});
+
+	it("rejects an unsuccessful response", async () => {
+		fetchMock.mockResolvedValueOnce(
+			new Response(null, { status: 401, statusText: "Unauthorized" }),
+		);
+		await expect(fetchProwlarrTorznab(config())).rejects.toThrow(
+			"401 Unauthorized (check apikey)",
+		);
+	});
+});
+
+describe("getTorznabEntries", () => {
+	afterEach(() => {
+		setDiscoveredTorznab([]);
+		vi.unstubAllGlobals();
+	});
+
+	it("prefers the config entry of an indexer that was also discovered", async () => {
+		vi.stubGlobal("fetch", fetchMock);
+		const configured = {
+			url: "http://localhost:9696/prowlarr/1/api?apikey=abc123",
+			delay: 60,
+			rss: true,
+			search: false,
+		};
+		setRuntimeConfig(config({ torznab: [configured] }));
+		await discoverProwlarrIndexers();
+
+		expect(getTorznabEntries()).toEqual([
+			configured,
+			...[2, 3].map((id) => ({
+				url: `http://localhost:9696/prowlarr/${id}/api?apikey=abc123`,
+				rss: true,
+				search: true,
+			})),
+		]);
+	});
+});
@@ -0,0 +1,97 @@
+import ms from "ms";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+await vi.hoisted(async () => {
+	const { mkdtempSync } = await import("fs");
+	const { tmpdir } = await import("os");
+	const { join } = await import("path");
+	process.env.CONFIG_DIR = mkdtempSync(join(tmpdir(), "cross-seed-"));
+});
+
+import { db } from "../src/db";
+import { CandidateWithIndexerId } from "../src/pipeline";
+import { withQueryCache } from "../src/queryCache";
+
+const candidate: CandidateWithIndexerId = {
+	guid: "https://example.com/details/1",
+	link: "https://example.com/download/1",
+	name: "Example.Movie.2020.1080p.BluRay.x264-GROUP",
+	tracker: "Example",
+	size: 1024,
+	pubDate: 0,
+	indexerId: 1,
+};
+
+describe("withQueryCache", () => {
+	beforeAll(async () => {
+		await db.migrate.latest();
+		await db("indexer").insert({
+			id: 1,
+			url: "https://example.com/api",
+			apikey: "abc123",
+			active: true,
+		});
+	});
+
+	afterAll(async () => {
+		await db.destroy();
+	});
+
+	it("doesn't fetch an identical query again within the ttl", async () => {
+		const fetchResults = vi.fn(async () => [candidate]);
+		const query = { t: "movie", q: "Example Movie" };
+
+		const first = await withQueryCache(
+			1,
+			query,
+			ms("1 hour"),
+			fetchResults,
+		);
+		const second = await withQueryCache(
+			1,
+			{ q: "example movie", t: "movie" },
+			ms("1 hour"),
+			fetchResults,
+		);
+
+		expect(fetchResults).toHaveBeenCalledTimes(1);
+		expect(first).toEqual({ candidates: [candidate], cached: false });
+		expect(second).toEqual({ candidates: [candidate], cached: true });
+	});
+
+	it("fetches a different query", async () => {
+		const fetchResults = vi.fn(async () => []);
+
+		await withQueryCache(
+			1,
+			{ t: "movie", q: "Another Movie" },
+			ms("1 hour"),
+			fetchResults,
+		);
+
+		expect(fetchResults).toHaveBeenCalledTimes(1);
+	});
+
+	it("fetches and caches the query again when refreshing", async () => {
+		const query = { t: "search", q: "Refreshed Movie" };
+		const refreshed = {
+			...candidate,
+			guid: "https://example.com/details/2",
+		};
+		await withQueryCache(1, query, ms("1 hour"), async () => [candidate]);
+
+		const fetchResults = vi.fn(async () => [refreshed]);
+		const result = await withQueryCache(
+			1,
+			query,
+			ms("1 hour"),
+			fetchResults,
+			true,
+		);
+		expect(fetchResults).toHaveBeenCalledTimes(1);
+		expect(result).toEqual({ candidates: [refreshed], cached: false });
+		expect(
+			await withQueryCache(1, query, ms("1 hour"), fetchResults),
+		).toEqual({ candidates: [refreshed], cached: true });
+	});
+});
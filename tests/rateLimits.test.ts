@@ -0,0 +1,235 @@
+import ms from "ms";
+import winston from "winston";
+import {
+	afterAll,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	vi,
+} from "vitest";
+
+await vi.hoisted(async () => {
+	const { mkdtempSync } = await import("fs");
+	const { tmpdir } = await import("os");
+	const { join } = await import("path");
+	process.env.CONFIG_DIR = mkdtempSync(join(tmpdir(), "cross-seed-"));
+});
+
+vi.mock("../src/logger", async (importOriginal) => ({
+	...(await importOriginal<typeof import("../src/logger")>()),
+	logger: winston.createLogger({ silent: true }),
+}));
+
+import { db } from "../src/db";
+import {
+	msUntilRateLimitToken,
+	RateLimitKind,
+	RateLimitWindow,
+	syncRateLimits,
+	updateRateLimitFromHeaders,
+	waitForRateLimitToken,
+} from "../src/rateLimits";
+import { RuntimeConfig, setRuntimeConfig } from "../src/runtimeConfig";
+
+const getRateLimits = () =>
+	db("indexer_rate_limit")
+		.where({ indexer_id: 1 })
+		.orderBy("window")
+		.select("kind", "window", "capacity", "tokens", "source");
+
+const insertRateLimit = (
+	window: RateLimitWindow,
+	capacity: number,
+	tokens: number,
+	updatedAt = Date.now(),
+) =>
+	db("indexer_rate_limit").insert({
+		indexer_id: 1,
+		kind: RateLimitKind.REQUEST,
+		window,
+		capacity,
+		tokens,
+		updated_at: updatedAt,
+		source: "config",
+	});
+
+describe("rate limits", () => {
+	beforeAll(async () => {
+		await db.migrate.latest();
+		await db("indexer").insert({
+			id: 1,
+			url: "https://example.com/api",
+			apikey: "abc123",
+			active: true,
+		});
+	});
+
+	beforeEach(async () => {
+		await db("indexer_rate_limit").del();
+	});
+
+	afterAll(async () => {
+		await db.destroy();
+	});
+
+	it("takes a token from every budget until one runs out", async () => {
+		await insertRateLimit(RateLimitWindow.MINUTE, 60, 2);
+		await insertRateLimit(RateLimitWindow.DAY, 1000, 1);
+
+		expect(await waitForRateLimitToken(1, RateLimitKind.REQUEST, 0)).toBe(
+			0,
+		);
+		const deferredUntil = await waitForRateLimitToken(
+			1,
+			RateLimitKind.REQUEST,
+			0,
+		);
+		expect(deferredUntil).toBeGreaterThan(Date.now() + ms("1 minute"));
+		expect(
+			await msUntilRateLimitToken(1, RateLimitKind.REQUEST),
+		).toBeGreaterThan(ms("1 minute"));
+		const rateLimits = await getRateLimits();
+		expect(rateLimits.map((r) => Math.round(r.tokens))).toEqual([0, 1]);
+	});
+
+	it("refills a budget over its window", async () => {
+		await insertRateLimit(
+			RateLimitWindow.MINUTE,
+			60,
+			0,
+			Date.now() - ms("30 seconds"),
+		);
+		expect(await msUntilRateLimitToken(1, RateLimitKind.REQUEST)).toBe(0);
+
+		await db("indexer_rate_limit").update({ updated_at: Date.now() });
+		const msUntilToken = await msUntilRateLimitToken(
+			1,
+			RateLimitKind.REQUEST,
+		);
+		expect(msUntilToken).toBeGreaterThan(0);
+		expect(msUntilToken).toBeLessThanOrEqual(ms("1 second"));
+	});
+
+	it("doesn't count the grab budget against requests", async () => {
+		await db("indexer_rate_limit").insert({
+			indexer_id: 1,
+			kind: RateLimitKind.GRAB,
+			window: RateLimitWindow.DAY,
+			capacity: 10,
+			tokens: 0,
+			updated_at: Date.now(),
+			source: "config",
+		});
+		expect(await msUntilRateLimitToken(1, RateLimitKind.REQUEST)).toBe(0);
+		expect(
+			await msUntilRateLimitToken(1, RateLimitKind.GRAB),
+		).toBeGreaterThan(0);
+	});
+
+	it("learns a budget from the X-RateLimit headers", async () => {
+		await updateRateLimitFromHeaders(
+			1,
+			new Headers({
+				"X-RateLimit-Limit": "100",
+				"X-RateLimit-Remaining": "5",
+				"X-RateLimit-Reset": "3600",
+			}),
+		);
+		expect(await getRateLimits()).toEqual([
+			{
+				kind: RateLimitKind.REQUEST,
+				window: RateLimitWindow.HOUR,
+				capacity: 100,
+				tokens: 5,
+				source: "header",
+			},
+		]);
+	});
+
+	it("picks the window from an epoch reset or defaults to an hour", async () => {
+		await updateRateLimitFromHeaders(
+			1,
+			new Headers({
+				"RateLimit-Limit": "10",
+				"RateLimit-Remaining": "10",
+				"RateLimit-Reset": `${Math.floor(Date.now() / 1000) + 30}`,
+			}),
+		);
+		await updateRateLimitFromHeaders(
+			1,
+			new Headers({
+				"X-RateLimit-Limit": "500",
+				"X-RateLimit-Remaining": "400",
+			}),
+		);
+		const rateLimits = await getRateLimits();
+		expect(rateLimits.map((r) => [r.window, r.capacity])).toEqual([
+			[RateLimitWindow.HOUR, 500],
+			[RateLimitWindow.MINUTE, 10],
+		]);
+	});
+
+	it("ignores incomplete X-RateLimit headers", async () => {
+		await updateRateLimitFromHeaders(
+			1,
+			new Headers({ "X-RateLimit-Remaining": "5" }),
+		);
+		expect(await getRateLimits()).toEqual([]);
+	});
+
+	it("only lowers the tokens of a configured budget", async () => {
+		await insertRateLimit(RateLimitWindow.MINUTE, 60, 60);
+		const headers = (remaining: number) =>
+			new Headers({
+				"X-RateLimit-Limit": "1000",
+				"X-RateLimit-Remaining": `${remaining}`,
+				"X-RateLimit-Reset": "60",
+			});
+
+		await updateRateLimitFromHeaders(1, headers(10));
+		await updateRateLimitFromHeaders(1, headers(900));
+		const [rateLimit] = await getRateLimits();
+		expect(rateLimit.capacity).toBe(60);
+		expect(rateLimit.source).toBe("config");
+		expect(rateLimit.tokens).toBeLessThan(11);
+	});
+
+	it("keeps the tokens of a budget when syncing it from config", async () => {
+		const setConfig = (requestsPerMinute?: number) =>
+			setRuntimeConfig({
+				torznab: [
+					{
+						url: "https://example.com/api?apikey=abc123",
+						requestsPerMinute,
+						rss: true,
+						search: true,
+					},
+				],
+			} as unknown as RuntimeConfig);
+
+		setConfig(60);
+		await syncRateLimits();
+		expect(await getRateLimits()).toEqual([
+			{
+				kind: RateLimitKind.REQUEST,
+				window: RateLimitWindow.MINUTE,
+				capacity: 60,
+				tokens: 60,
+				source: "config",
+			},
+		]);
+
+		await db("indexer_rate_limit").update({ tokens: 0 });
+		setConfig(30);
+		await syncRateLimits();
+		const [rateLimit] = await getRateLimits();
+		expect(rateLimit.capacity).toBe(30);
+		expect(rateLimit.tokens).toBeLessThan(1);
+
+		setConfig(undefined);
+		await syncRateLimits();
+		expect(await getRateLimits()).toEqual([]);
+	});
+});
@@ -0,0 +1,93 @@
+import ms from "ms";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+await vi.hoisted(async () => {
+	const { mkdtempSync } = await import("fs");
+	const { tmpdir } = await import("os");
+	const { join } = await import("path");
+	process.env.CONFIG_DIR = mkdtempSync(join(tmpdir(), "cross-seed-"));
+});
+
+import { db } from "../src/db";
+import { Label } from "../src/logger";
+import {
+	queryRecentCandidates,
+	RECENT_CANDIDATE_QUERY_SCHEMA,
+} from "../src/recentCandidates";
+
+const query = (params: Record<string, string>) =>
+	queryRecentCandidates(RECENT_CANDIDATE_QUERY_SCHEMA.parse(params));
+
+const row = (guid: string, tracker: string, label: Label, seenAt: number) => ({
+	guid,
+	name: `Example.Movie.2020.1080p.BluRay.x264-${guid}`,
+	tracker,
+	link: `https://${tracker.toLowerCase()}.example/download/${guid}?passkey=secret`,
+	size: 1024,
+	pub_date: seenAt,
+	info_hash: null,
+	cookie: "uid=1; pass=secret",
+	label,
+	seen_at: seenAt,
+});
+
+describe("queryRecentCandidates", () => {
+	beforeAll(async () => {
+		await db.migrate.latest();
+		const now = Date.now();
+		await db("recent_candidate").insert([
+			row("foo-1", "Foo", Label.RSS, now - ms("1 hour")),
+			row("bar-1", "Bar", Label.ANNOUNCE, now - ms("2 hours")),
+			row("foo-2", "Foo", Label.ANNOUNCE, now - ms("3 hours")),
+			row("foo-old", "Foo", Label.RSS, now - ms("4 days")),
+		]);
+	});
+
+	afterAll(async () => {
+		await db.destroy();
+	});
+
+	it("lists the candidates that are still kept, newest first", async () => {
+		const page = await query({});
+		expect(page.total).toBe(3);
+		expect(page.candidates.map((c) => c.guid)).toEqual([
+			"foo-1",
+			"bar-1",
+			"foo-2",
+		]);
+	});
+
+	it("leaves out the link and cookie", async () => {
+		const [candidate] = (await query({ limit: "1" })).candidates;
+		expect(candidate).toEqual({
+			guid: "foo-1",
+			name: "Example.Movie.2020.1080p.BluRay.x264-foo-1",
+			tracker: "Foo",
+			size: 1024,
+			pubDate: expect.any(Number),
+			indexerId: null,
+			infoHash: null,
+			label: Label.RSS,
+			seenAt: expect.any(Number),
+		});
+	});
+
+	it("filters by tracker and label", async () => {
+		const page = await query({ tracker: "foo", label: Label.ANNOUNCE });
+		expect(page.total).toBe(1);
+		expect(page.candidates.map((c) => c.guid)).toEqual(["foo-2"]);
+	});
+
+	it("pages the candidates", async () => {
+		const page = await query({ limit: "1", offset: "1" });
+		expect(page).toMatchObject({ total: 3, limit: 1, offset: 1 });
+		expect(page.candidates.map((c) => c.guid)).toEqual(["bar-1"]);
+	});
+
+	it("rejects an unknown label", () => {
+		expect(
+			RECENT_CANDIDATE_QUERY_SCHEMA.safeParse({ label: Label.SEARCH })
+				.success,
+		).toBe(false);
+	});
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+
+import { msUntilQuietHoursEnd, nextCronRun, parseCron } from "../src/schedule";
+
+describe("nextCronRun", () => {
+	it("finds the next matching minute in local time", () => {
+		const after = new Date(2024, 0, 1, 3, 0).getTime();
+		expect(nextCronRun("0 3 * * *", after)).toBe(
+			new Date(2024, 0, 2, 3, 0).getTime(),
+		);
+		expect(nextCronRun("*/15 * * * *", after)).toBe(
+			new Date(2024, 0, 1, 3, 15).getTime(),
+		);
+	});
+
+	it("supports ranges, names, and aliases", () => {
+		// 2024-01-06 is a Saturday
+		const after = new Date(2024, 0, 6, 12, 0).getTime();
+		expect(nextCronRun("30 8-17 * * mon-fri", after)).toBe(
+			new Date(2024, 0, 8, 8, 30).getTime(),
+		);
+		expect(nextCronRun("@monthly", after)).toBe(
+			new Date(2024, 1, 1, 0, 0).getTime(),
+		);
+	});
+
+	it("matches either day field when both are restricted", () => {
+		// 2024-01-06 is a Saturday, the 7th is a Sunday
+		const after = new Date(2024, 0, 6, 12, 0).getTime();
+		expect(nextCronRun("0 0 15 * 0", after)).toBe(
+			new Date(2024, 0, 7, 0, 0).getTime(),
+		);
+	});
+
+	it("returns null for expressions that never match", () => {
+		expect(nextCronRun("0 0 30 2 *", Date.now())).toBeNull();
+	});
+
+	it("rejects invalid expressions", () => {
+		expect(() => parseCron("0 3 * *")).toThrow();
+		expect(() => parseCron("60 * * * *")).toThrow();
+		expect(() => parseCron("0 5-2 * * *")).toThrow();
+	});
+});
+
+describe("msUntilQuietHoursEnd", () => {
+	it("returns 0 outside of quiet hours", () => {
+		const now = new Date(2024, 0, 1, 12, 0).getTime();
+		expect(msUntilQuietHoursEnd("01:00-07:00", now)).toBe(0);
+		expect(msUntilQuietHoursEnd(undefined, now)).toBe(0);
+	});
+
+	it("handles quiet hours that wrap past midnight", () => {
+		const now = new Date(2024, 0, 1, 23, 0).getTime();
+		expect(msUntilQuietHoursEnd("22:30-06:00", now)).toBe(
+			new Date(2024, 0, 2, 6, 0).getTime() - now,
+		);
+	});
+});
@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import { UNKNOWN_TRACKER } from "../src/constants";
+import { parseSearchResponse } from "../src/searchResults";
+
+const PROWLARR_XML = `<?xml version="1.0" encoding="utf-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:torznab="http://torznab.com/schemas/2015/feed">
+  <channel>
+    <atom:link rel="self" type="application/rss+xml" />
+    <title>Example</title>
+    <item>
+      <title>Example.Movie.2020.1080p.BluRay.x264-GROUP</title>
+      <description />
+      <guid>https://example.com/torrents/1234</guid>
+      <prowlarrindexer id="3" type="private">Example</prowlarrindexer>
+      <comments>https://example.com/torrents/1234</comments>
+      <pubDate>Sat, 14 Mar 2020 15:02:41 +0000</pubDate>
+      <size>9392711066</size>
+      <link>http://localhost:9696/3/download?apikey=abc123&amp;link=abc&amp;file=Example.Movie</link>
+      <category>2000</category>
+      <category>2040</category>
+      <enclosure url="http://localhost:9696/3/download?apikey=abc123&amp;link=abc&amp;file=Example.Movie" length="9392711066" type="application/x-bittorrent" />
+      <torznab:attr name="category" value="2000" />
+      <torznab:attr name="category" value="2040" />
+      <torznab:attr name="seeders" value="42" />
+      <torznab:attr name="infohash" value="0123456789ABCDEF0123456789ABCDEF01234567" />
+      <torznab:attr name="downloadvolumefactor" value="0" />
+    </item>
+    <item>
+      <title>Example.Movie.2020.720p.BluRay.x264-GROUP</title>
+      <guid>https://example.com/torrents/1235</guid>
+      <prowlarrindexer id="3" type="private">Example</prowlarrindexer>
+      <pubDate>Sat, 14 Mar 2020 15:00:00 +0000</pubDate>
+      <size>4696355533</size>
+      <link />
+      <torznab:attr name="seeders" value="7" />
+    </item>
+  </channel>
+</rss>`;
+
+const JACKETT_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:torznab="http://torznab.com/schemas/2015/feed">
+  <channel>
+    <title>Example</title>
+    <item>
+      <title>Example.Show.S01E02.1080p.WEB.h264-GROUP</title>
+      <guid>https://example.org/details.php?id=42</guid>
+      <jackettindexer id="example"> Example </jackettindexer>
+      <type>private</type>
+      <pubDate>Mon, 02 Mar 2020 09:30:00 -0500</pubDate>
+      <size>1549215744</size>
+      <link>http://localhost:9117/dl/example/?jackett_apikey=abc123&amp;path=xyz</link>
+      <torznab:attr name="infohash" value="not-an-infohash" />
+    </item>
+    <item>
+      <title>Example.Show.S01E03.1080p.WEB.h264-GROUP</title>
+      <guid>https://example.org/details.php?id=43</guid>
+      <pubDate>Mon, 09 Mar 2020 09:30:00 -0500</pubDate>
+      <size>1549215745</size>
+      <link>http://localhost:9117/dl/example/?jackett_apikey=abc123&amp;path=uvw</link>
+    </item>
+  </channel>
+</rss>`;
+
+const respond = (body: string, contentType: string) =>
+	new Response(body, { headers: { "Content-Type": contentType } });
+
+describe("parseSearchResponse", () => {
+	it("parses the Torznab XML of Prowlarr", async () => {
+		const candidates = await parseSearchResponse(
+			respond(PROWLARR_XML, "application/rss+xml; charset=utf-8"),
+			3,
+		);
+		expect(candidates).toEqual([
+			{
+				guid: "https://example.com/torrents/1234",
+				infoHash: "0123456789abcdef0123456789abcdef01234567",
+				name: "Example.Movie.2020.1080p.BluRay.x264-GROUP",
+				tracker: "Example",
+				link: "http://localhost:9696/3/download?apikey=abc123&link=abc&file=Example.Movie",
+				size: 9392711066,
+				pubDate: Date.parse("2020-03-14T15:02:41Z"),
+				indexerId: 3,
+			},
+		]);
+	});
+
+	it("parses the Torznab XML of Jackett", async () => {
+		const candidates = await parseSearchResponse(
+			respond(JACKETT_XML, "application/xml"),
+			1,
+		);
+		expect(
+			candidates.map(({ tracker, infoHash }) => [tracker, infoHash]),
+		).toEqual([
+			["Example", undefined],
+			[UNKNOWN_TRACKER, undefined],
+		]);
+		expect(candidates[0].pubDate).toBe(Date.parse("2020-03-02T14:30:00Z"));
+	});
+
+	it("parses a channel without results", async () => {
+		const xml = `<?xml version="1.0" encoding="UTF-8"?><rss version="2.0"><channel><title>Example</title></channel></rss>`;
+		expect(await parseSearchResponse(respond(xml, "text/xml"), 1)).toEqual(
+			[],
+		);
+	});
+
+	it("detects XML without a content type", async () => {
+		const candidates = await parseSearchResponse(
+			new Response(JACKETT_XML),
+			1,
+		);
+		expect(candidates).toHaveLength(2);
+	});
+
+	it("rejects a Torznab error", async () => {
+		const xml = `<?xml version="1.0" encoding="UTF-8"?><error code="100" description="Invalid API Key" />`;
+		await expect(
+			parseSearchResponse(respond(xml, "application/xml"), 1),
+		).rejects.toThrow("responded with error 100: Invalid API Key");
+	});
+
+	it("rejects an HTML page", async () => {
+		const html = `<!DOCTYPE html><html><head><title>Login</title></head><body></body></html>`;
+		await expect(
+			parseSearchResponse(respond(html, "text/html"), 1),
+		).rejects.toThrow("responded with an HTML page");
+		await expect(
+			parseSearchResponse(respond(html, "application/xml"), 1),
+		).rejects.toThrow("responded with an HTML page");
+	});
+
+	it("rejects JSON", async () => {
+		const json = JSON.stringify({ Results: [], Indexers: [] });
+		await expect(
+			parseSearchResponse(respond(json, "application/json"), 1),
+		).rejects.toThrow("responded with JSON instead of Torznab XML");
+	});
+
+	it("rejects unparseable XML", async () => {
+		await expect(
+			parseSearchResponse(
+				respond("<rss><channel><item></channel>", "application/xml"),
+				1,
+			),
+		).rejects.toThrow("responded with unparseable XML");
+	});
+
+	it("rejects a body in another format", async () => {
+		await expect(
+			parseSearchResponse(respond("Bad Gateway", "text/plain"), 1),
+		).rejects.toThrow(
+			"responded with text/plain instead of search results",
+		);
+	});
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from "vitest";
+
+await vi.hoisted(async () => {
+	const { mkdtempSync } = await import("fs");
+	const { tmpdir } = await import("os");
+	const { join } = await import("path");
+	process.env.CONFIG_DIR = mkdtempSync(join(tmpdir(), "cross-seed-"));
+});
+
+import { DECISION_QUERY_SCHEMA } from "../src/decisionHistory";
+import { JOB_RUN_QUERY_SCHEMA } from "../src/jobRuns";
+import { RECENT_CANDIDATE_QUERY_SCHEMA } from "../src/recentCandidates";
+import { getQueryParams } from "../src/server";
+import { STATS_QUERY_SCHEMA } from "../src/stats";
+
+describe("getQueryParams", () => {
+	it("leaves out the apikey", () => {
+		const { queryStr, params } = getQueryParams(
+			"/api/decisions?apikey=abc123&tracker=foo&limit=5",
+		);
+		expect(params).toEqual({ tracker: "foo", limit: "5" });
+		expect(queryStr).toBe("tracker=foo&limit=5");
+	});
+
+	it("accepts ?apikey= for the decision query", () => {
+		const { params } = getQueryParams(
+			"/api/decisions?apikey=abc123&limit=5",
+		);
+		const parsed = DECISION_QUERY_SCHEMA.safeParse(params);
+		expect(parsed.success).toBe(true);
+		expect(parsed.data).toMatchObject({ limit: 5, offset: 0 });
+	});
+
+	it("accepts ?apikey= for the job run query", () => {
+		const { params } = getQueryParams(
+			"/api/job-runs?apikey=abc123&name=rss",
+		);
+		const parsed = JOB_RUN_QUERY_SCHEMA.safeParse(params);
+		expect(parsed.success).toBe(true);
+		expect(parsed.data).toMatchObject({ name: "rss", limit: 50 });
+	});
+
+	it("accepts ?apikey= for the stats query", () => {
+		const { params } = getQueryParams(
+			"/api/stats?apikey=abc123&tracker=foo",
+		);
+		const parsed = STATS_QUERY_SCHEMA.safeParse(params);
+		expect(parsed.success).toBe(true);
+		expect(parsed.data).toEqual({ tracker: "foo" });
+	});
+
+	it("accepts ?apikey= for the recent candidate query", () => {
+		const { params } = getQueryParams(
+			"/api/recent-candidates?apikey=abc123&label=announce",
+		);
+		const parsed = RECENT_CANDIDATE_QUERY_SCHEMA.safeParse(params);
+		expect(parsed.success).toBe(true);
+		expect(parsed.data).toEqual({
+			label: "announce",
+			limit: 50,
+			offset: 0,
+		});
+	});
+
+	it("still rejects unknown params", () => {
+		const { params } = getQueryParams("/api/decisions?apikey=abc123&foo=1");
+		expect(DECISION_QUERY_SCHEMA.safeParse(params).success).toBe(false);
+	});
+});
@@ -0,0 +1,191 @@
+import ms from "ms";
+import winston from "winston";
+import {
+	afterAll,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	vi,
+} from "vitest";
+
+await vi.hoisted(async () => {
+	const { mkdtempSync } = await import("fs");
+	const { tmpdir } = await import("os");
+	const { join } = await import("path");
+	process.env.CONFIG_DIR = mkdtempSync(join(tmpdir(), "cross-seed-"));
+});
+
+vi.mock("../src/logger", async (importOriginal) => ({
+	...(await importOriginal<typeof import("../src/logger")>()),
+	logger: winston.createLogger({ silent: true }),
+}));
+
+vi.mock("../src/pushNotifier", async (importOriginal) => ({
+	...(await importOriginal<typeof import("../src/pushNotifier")>()),
+	sendIndexerFailingNotification: vi.fn(),
+	sendIndexerRecoveredNotification: vi.fn(),
+}));
+
+import { db } from "../src/db";
+import { IndexerStatus } from "../src/indexers";
+import { Label } from "../src/logger";
+import {
+	sendIndexerFailingNotification,
+	sendIndexerRecoveredNotification,
+} from "../src/pushNotifier";
+import {
+	onRequestFailure,
+	onRequestSuccess,
+	withIndexerRequestSlot,
+} from "../src/torznab";
+import { wait } from "../src/utils";
+
+beforeAll(async () => {
+	await db.migrate.latest();
+	await db("indexer").insert({
+		id: 1,
+		url: "https://example.com/api",
+		apikey: "abc123",
+		active: true,
+	});
+});
+
+afterAll(async () => {
+	await db.destroy();
+});
+
+describe("withIndexerRequestSlot", () => {
+	it("lets a higher priority request go first once a token is available", async () => {
+		// the next token is a second away
+		await db("indexer_rate_limit").insert({
+			indexer_id: 1,
+			kind: "request",
+			window: "minute",
+			capacity: 60,
+			tokens: 0,
+			updated_at: Date.now(),
+			source: "config",
+		});
+		const order: string[] = [];
+		const bulk = withIndexerRequestSlot(1, Label.SEARCH, async () => {
+			order.push(Label.SEARCH);
+		});
+		await wait(100);
+		const webhook = withIndexerRequestSlot(1, Label.WEBHOOK, async () => {
+			order.push(Label.WEBHOOK);
+		});
+
+		await Promise.all([bulk, webhook]);
+		expect(order).toEqual([Label.WEBHOOK, Label.SEARCH]);
+	});
+
+	it("lets a higher priority request go first once the delay is over", async () => {
+		await db("indexer_rate_limit").del();
+		const readyAt = Date.now() + 500;
+		const order: string[] = [];
+		const bulk = withIndexerRequestSlot(
+			1,
+			Label.SEARCH,
+			async () => {
+				order.push(Label.SEARCH);
+			},
+			() => readyAt,
+		);
+		await wait(100);
+		const rss = withIndexerRequestSlot(
+			1,
+			Label.RSS,
+			async () => {
+				order.push(Label.RSS);
+			},
+			() => readyAt,
+		);
+
+		await Promise.all([bulk, rss]);
+		expect(order).toEqual([Label.RSS, Label.SEARCH]);
+	});
+});
+
+describe("onRequestFailure", () => {
+	const getIndexer = () =>
+		db("indexer")
+			.where({ id: 1 })
+			.select({
+				status: "status",
+				retryAfter: "retry_after",
+				consecutiveFailures: "consecutive_failures",
+			})
+			.first();
+
+	beforeEach(async () => {
+		await db("indexer").where({ id: 1 }).update({
+			status: null,
+			retry_after: null,
+			consecutive_failures: 0,
+		});
+		vi.mocked(sendIndexerFailingNotification).mockClear();
+		vi.mocked(sendIndexerRecoveredNotification).mockClear();
+	});
+
+	it("doubles the snooze with each consecutive failure", async () => {
+		const first = (await onRequestFailure(1, "Example")) - Date.now();
+		const second = (await onRequestFailure(1, "Example")) - Date.now();
+		expect(first).toBeGreaterThan(ms("9 minutes"));
+		expect(first).toBeLessThanOrEqual(ms("10 minutes"));
+		expect(second).toBeGreaterThan(ms("19 minutes"));
+		expect(second).toBeLessThanOrEqual(ms("20 minutes"));
+		expect((await getIndexer()).status).toBe(IndexerStatus.UNKNOWN_ERROR);
+	});
+
+	it("snoozes until the Retry-After of a 429", async () => {
+		const response = new Response(null, {
+			status: 429,
+			headers: { "Retry-After": "120" },
+		});
+		const retryAfter = await onRequestFailure(1, "Example", response);
+		expect(retryAfter - Date.now()).toBeGreaterThan(ms("1 minute"));
+		expect(retryAfter - Date.now()).toBeLessThanOrEqual(ms("2 minutes"));
+		expect(await getIndexer()).toMatchObject({
+			status: IndexerStatus.RATE_LIMITED,
+			retryAfter,
+		});
+	});
+
+	it("opens the circuit after 5 consecutive failures", async () => {
+		for (let i = 0; i < 4; i++) await onRequestFailure(1, "Example");
+		expect((await getIndexer()).status).toBe(IndexerStatus.UNKNOWN_ERROR);
+		expect(sendIndexerFailingNotification).not.toHaveBeenCalled();
+
+		const retryAfter = await onRequestFailure(1, "Example");
+		expect(await getIndexer()).toMatchObject({
+			status: IndexerStatus.CIRCUIT_OPEN,
+			consecutiveFailures: 5,
+		});
+		expect(sendIndexerFailingNotification).toHaveBeenCalledExactlyOnceWith(
+			"Example",
+			5,
+			retryAfter,
+		);
+
+		// the failed probe keeps it open without notifying again
+		await onRequestFailure(1, "Example");
+		expect((await getIndexer()).status).toBe(IndexerStatus.CIRCUIT_OPEN);
+		expect(sendIndexerFailingNotification).toHaveBeenCalledOnce();
+	});
+
+	it("closes the circuit once a request succeeds", async () => {
+		for (let i = 0; i < 5; i++) await onRequestFailure(1, "Example");
+		await onRequestSuccess(1, "Example");
+		expect(await getIndexer()).toEqual({
+			status: null,
+			retryAfter: null,
+			consecutiveFailures: 0,
+		});
+		expect(sendIndexerRecoveredNotification).toHaveBeenCalledOnce();
+
+		await onRequestSuccess(1, "Example");
+		expect(sendIndexerRecoveredNotification).toHaveBeenCalledOnce();
+	});
+});
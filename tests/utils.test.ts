@@ -4,7 +4,12 @@ import { searcheeFactory } from "./factories/searchee";
 
 import { MediaType, SEASON_REGEX } from "../src/constants";
 import { getMediaType } from "../src/searchee";
-import { extractInt, humanReadableSize, sanitizeUrl } from "../src/utils";
+import {
+	AsyncSemaphore,
+	extractInt,
+	humanReadableSize,
+	sanitizeUrl,
+} from "../src/utils";
 
 describe("humanReadableSize", () => {
 	it("returns a human-readable size", () => {
@@ -173,3 +178,37 @@ describe("sanitizeUrl", () => {
 		);
 	});
 });
+
+describe("AsyncSemaphore", () => {
+	it("grants permits by priority, then in FIFO order", async () => {
+		const semaphore = new AsyncSemaphore({ permits: 1 });
+		const held = await semaphore.acquire();
+		const order: string[] = [];
+		const waiters = [
+			["low 1", 0],
+			["high", 2],
+			["low 2", 0],
+			["medium", 1],
+		].map(async ([name, priority]: [string, number]) => {
+			const id = await semaphore.acquire(priority);
+			order.push(name);
+			semaphore.release(id);
+		});
+		semaphore.release(held);
+		await Promise.all(waiters);
+		expect(order).toEqual(["high", "medium", "low 1", "low 2"]);
+	});
+
+	it("reports whether a higher priority waiter is queued", async () => {
+		const semaphore = new AsyncSemaphore({ permits: 1 });
+		const held = await semaphore.acquire(1);
+		expect(semaphore.hasWaiterAbove(1)).toBe(false);
+		const waiter = semaphore.acquire(1);
+		expect(semaphore.hasWaiterAbove(1)).toBe(false);
+		const highWaiter = semaphore.acquire(2);
+		expect(semaphore.hasWaiterAbove(1)).toBe(true);
+		semaphore.release(held);
+		semaphore.release(await highWaiter);
+		semaphore.release(await waiter);
+	});
+});